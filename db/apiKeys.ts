@@ -0,0 +1,196 @@
+// Per-client API keys, stored hashed
+import { createHash, randomBytes } from "crypto";
+import { and, asc, eq, isNull, lt, or } from "drizzle-orm";
+import { db } from "./client";
+import { apiKeys, type ApiKey, type ApiKeyScope } from "./schema";
+import { AppError, databaseError } from "../utils/errors";
+
+const KEY_PREFIX_LENGTH = 12;
+
+/**
+ * How often last_used_at is refreshed for a busy key (milliseconds)
+ */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * API key as returned by the API (never includes the hash or the signing secret)
+ */
+export type ApiKeySummary = Omit<ApiKey, "keyHash" | "signingSecret">;
+
+/**
+ * Hash an API key for storage and lookup
+ * @param key - The plaintext key
+ * @returns string - SHA-256 hex digest
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Strip the hash and the signing secret from a stored key
+ */
+function toSummary(apiKey: ApiKey): ApiKeySummary {
+  const { keyHash: _keyHash, signingSecret: _signingSecret, ...summary } = apiKey;
+  return summary;
+}
+
+/**
+ * Generate a request signing secret
+ */
+function generateSigningSecret(): string {
+  return `ss_${randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * Create an API key, with its request signing secret
+ * The plaintext key and the signing secret are returned here and nowhere else; only the
+ * key's hash is stored, and the secret is kept to check signatures
+ * @param name - Label for the client using the key
+ * @param scopes - Scopes granted to the key
+ * @param requireSignature - Whether requests must carry an HMAC signature
+ * @returns Promise<{ apiKey: ApiKeySummary; key: string; signingSecret: string }>
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[],
+  requireSignature: boolean = false
+): Promise<{ apiKey: ApiKeySummary; key: string; signingSecret: string }> {
+  const key = `sk_${randomBytes(32).toString("base64url")}`;
+  const signingSecret = generateSigningSecret();
+
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({
+      name,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes,
+      requireSignature,
+      signingSecret,
+    })
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to create API key", error);
+    });
+
+  return { apiKey: toSummary(apiKey), key, signingSecret };
+}
+
+/**
+ * Replace the signing secret of an active API key
+ * Requests signed with the previous secret are rejected from then on.
+ * @param id - The key's ID
+ * @returns Promise<{ apiKey: ApiKeySummary; signingSecret: string }>
+ */
+export async function rotateSigningSecret(
+  id: number
+): Promise<{ apiKey: ApiKeySummary; signingSecret: string }> {
+  const signingSecret = generateSigningSecret();
+
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ signingSecret })
+    .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to rotate signing secret", error);
+    });
+
+  if (!apiKey) {
+    throw new AppError(`No active API key found with id: ${id}`, "API_KEY_NOT_FOUND");
+  }
+
+  return { apiKey: toSummary(apiKey), signingSecret };
+}
+
+/**
+ * Look up an active (non-revoked) API key from its plaintext value
+ * @param key - The plaintext key presented by the client
+ * @returns Promise<ApiKey | null>
+ */
+export async function findActiveApiKey(key: string): Promise<ApiKey | null> {
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to look up API key", error);
+    });
+
+  return apiKey ?? null;
+}
+
+/**
+ * Look up an active (non-revoked) API key by its ID, for requests that identify their key
+ * and prove it with a signature instead of sending it
+ * @param id - The key's ID
+ * @returns Promise<ApiKey | null>
+ */
+export async function findActiveApiKeyById(id: number): Promise<ApiKey | null> {
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to look up API key", error);
+    });
+
+  return apiKey ?? null;
+}
+
+/**
+ * Record that a key was used, at most once per LAST_USED_RESOLUTION_MS
+ * @param id - The key's ID
+ * @returns Promise<void>
+ */
+export async function touchApiKey(id: number): Promise<void> {
+  const staleBefore = new Date(Date.now() - LAST_USED_RESOLUTION_MS);
+
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(
+      and(eq(apiKeys.id, id), or(isNull(apiKeys.lastUsedAt), lt(apiKeys.lastUsedAt, staleBefore)))
+    )
+    .catch((error: unknown) => {
+      throw databaseError("Failed to update API key usage", error);
+    });
+}
+
+/**
+ * List every API key, including revoked ones
+ * @returns Promise<ApiKeySummary[]>
+ */
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  const rows = await db
+    .select()
+    .from(apiKeys)
+    .orderBy(asc(apiKeys.id))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list API keys", error);
+    });
+
+  return rows.map(toSummary);
+}
+
+/**
+ * Revoke an API key
+ * @param id - The key's ID
+ * @returns Promise<ApiKeySummary> - The revoked key
+ */
+export async function revokeApiKey(id: number): Promise<ApiKeySummary> {
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to revoke API key", error);
+    });
+
+  if (!apiKey) {
+    throw new AppError(`No active API key found with id: ${id}`, "API_KEY_NOT_FOUND");
+  }
+
+  return toSummary(apiKey);
+}
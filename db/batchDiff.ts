@@ -0,0 +1,166 @@
+// Comparison of two batches' rows, matched on a key column, in SQL over the JSONB data
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "./client";
+import { sheetData } from "./schema";
+import type { BatchDiffPage, BatchDiffQuery, BatchDiffSummary, RowChange } from "../types";
+import { AppError, databaseError } from "../utils/errors";
+
+/**
+ * Kinds of difference between two batches
+ * - added: Key only in the newer batch
+ * - removed: Key only in the older batch
+ * - modified: Key in both, with different data
+ */
+export const BATCH_CHANGE_TYPES = ["added", "removed", "modified"] as const;
+
+export type BatchChangeType = (typeof BATCH_CHANGE_TYPES)[number];
+
+/**
+ * Position of the last change of a page, as handed back to clients in nextCursor
+ * - k: Key column the page was read with
+ * - v: Key value of the change
+ */
+interface DiffCursor {
+  k: string;
+  v: string;
+}
+
+/**
+ * The rows of one batch, one per key value
+ * Rows without a value in the key column are left out; when a key value repeats,
+ * the last row with it is used
+ */
+function keyedRows(batchId: number, key: string): SQL {
+  return sql`SELECT DISTINCT ON (k) ${sheetData.data} ->> ${key}::text AS k, ${sheetData.data} AS data
+    FROM ${sheetData}
+    WHERE ${sheetData.batchId} = ${batchId} AND ${sheetData.data} ->> ${key}::text <> ''
+    ORDER BY k, ${sheetData.rowNumber} DESC`;
+}
+
+/**
+ * Every differing key of two batches, with its change type and both versions of the row
+ */
+function changedRows(fromBatchId: number, toBatchId: number, key: string): SQL {
+  return sql`WITH old_rows AS (${keyedRows(fromBatchId, key)}),
+    new_rows AS (${keyedRows(toBatchId, key)}),
+    diff AS (
+      SELECT coalesce(n.k, o.k) AS key,
+        CASE WHEN o.k IS NULL THEN 'added' WHEN n.k IS NULL THEN 'removed' ELSE 'modified' END AS change,
+        o.data AS old_data,
+        n.data AS new_data
+      FROM old_rows o FULL OUTER JOIN new_rows n ON o.k = n.k
+      WHERE o.data IS DISTINCT FROM n.data
+    )`;
+}
+
+/**
+ * Decode a nextCursor value into the key to continue after
+ * @throws AppError (400) when the cursor is malformed or was issued for another key column
+ */
+function decodeDiffCursor(query: BatchDiffQuery): string | undefined {
+  if (query.cursor === undefined) {
+    return undefined;
+  }
+
+  let cursor: DiffCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(query.cursor, "base64url").toString("utf8")) as DiffCursor;
+  } catch {
+    throw new AppError("Invalid cursor", "INVALID_CURSOR");
+  }
+
+  if (!cursor || typeof cursor.v !== "string" || typeof cursor.k !== "string") {
+    throw new AppError("Invalid cursor", "INVALID_CURSOR");
+  }
+
+  if (cursor.k !== query.key) {
+    throw new AppError(`cursor was issued for key=${cursor.k}`, "INVALID_CURSOR");
+  }
+
+  return cursor.v;
+}
+
+/**
+ * Build the cursor pointing after a key value
+ */
+function encodeDiffCursor(key: string, value: string): string {
+  const cursor: DiffCursor = { k: key, v: value };
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/**
+ * Count the changes of each type
+ */
+async function summarizeDiff(
+  fromBatchId: number,
+  toBatchId: number,
+  key: string
+): Promise<BatchDiffSummary> {
+  const result = await db.execute(
+    sql`${changedRows(fromBatchId, toBatchId, key)} SELECT change, count(*)::int AS count FROM diff GROUP BY change`
+  );
+
+  const summary: BatchDiffSummary = { added: 0, removed: 0, modified: 0 };
+  for (const row of result.rows) {
+    summary[row.change as BatchChangeType] = Number(row.count);
+  }
+  return summary;
+}
+
+/**
+ * Compare two batches row by row, matching rows on the value of a key column
+ * The comparison runs in Postgres: rows are joined on data ->> key, and for modified rows
+ * only the fields whose JSON values differ are returned. Changes are ordered by key value
+ * (byte order) and paged with a cursor. The summary counts are only computed for the
+ * first page.
+ * @param fromBatchId - The older batch
+ * @param toBatchId - The newer batch
+ * @param query - Key column, change types, page size and cursor
+ * @returns Promise<BatchDiffPage>
+ * @throws AppError (400) for a bad cursor, (500) when the comparison fails
+ */
+export async function fetchBatchDiff(
+  fromBatchId: number,
+  toBatchId: number,
+  query: BatchDiffQuery
+): Promise<BatchDiffPage> {
+  const after = decodeDiffCursor(query);
+  const changeTypes = query.changes ?? [...BATCH_CHANGE_TYPES];
+
+  const conditions = [sql`change IN ${changeTypes}`];
+  if (after !== undefined) {
+    conditions.push(sql`key COLLATE "C" > ${after}`);
+  }
+
+  const [result, summary] = await Promise.all([
+    db.execute(
+      sql`${changedRows(fromBatchId, toBatchId, query.key)}
+        SELECT key, change,
+          CASE change WHEN 'added' THEN new_data WHEN 'removed' THEN old_data END AS data,
+          CASE WHEN change = 'modified' THEN (
+            SELECT jsonb_object_agg(field, jsonb_build_object('old', old_data -> field, 'new', new_data -> field))
+            FROM (SELECT jsonb_object_keys(old_data) UNION SELECT jsonb_object_keys(new_data)) AS fields(field)
+            WHERE old_data -> field IS DISTINCT FROM new_data -> field
+          ) END AS fields
+        FROM diff
+        WHERE ${sql.join(conditions, sql` AND `)}
+        ORDER BY key COLLATE "C"
+        LIMIT ${query.limit + 1}`
+    ),
+    after === undefined ? summarizeDiff(fromBatchId, toBatchId, query.key) : undefined,
+  ]).catch((error: unknown) => {
+    throw databaseError("Failed to compare batches", error);
+  });
+
+  const changes: RowChange[] = result.rows.slice(0, query.limit).map((row) => {
+    const change = row.change as BatchChangeType;
+    return change === "modified"
+      ? { key: String(row.key), change, fields: row.fields as RowChange["fields"] }
+      : { key: String(row.key), change, data: row.data as RowChange["data"] };
+  });
+
+  const last = changes[changes.length - 1];
+  const nextCursor = result.rows.length > query.limit && last ? encodeDiffCursor(query.key, last.key) : null;
+
+  return { changes, nextCursor, summary };
+}
@@ -0,0 +1,92 @@
+// Streaming reads of a batch's rows, for exports that do not fit in memory
+import type { Readable } from "stream";
+import QueryStream from "pg-query-stream";
+import { and, eq, isNull, notInArray, sql } from "drizzle-orm";
+import { db, pool } from "./client";
+import { batches, sheetData, type Batch } from "./schema";
+import { UNCOMMITTED_BATCH_STATUSES } from "./batches";
+import { rowDataSelection, rowFilterConditions, rowOrder } from "./batchQuery";
+import type { BatchRowQuery, SheetDataRow } from "../types";
+import { databaseError } from "../utils/errors";
+
+/**
+ * Row emitted by an export stream
+ */
+export interface ExportRow {
+  data: SheetDataRow;
+}
+
+// Rows fetched from the cursor per round trip
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Get the columns of a batch in sheet order
+ * Batches stored before column order was recorded fall back to the union of their
+ * JSONB keys, ordered by the first row each key appears in
+ * @param batch - The batch
+ * @returns Promise<string[]>
+ */
+export async function getBatchColumns(batch: Batch): Promise<string[]> {
+  if (batch.columns) {
+    return batch.columns;
+  }
+
+  const result = await db
+    .execute(
+      sql`SELECT key FROM ${sheetData}, jsonb_object_keys(${sheetData.data}) AS key
+          WHERE ${sheetData.batchId} = ${batch.id}
+          GROUP BY key
+          ORDER BY min(${sheetData.rowNumber}), key`
+    )
+    .catch((error: unknown) => {
+      throw databaseError("Failed to read batch columns", error);
+    });
+
+  return result.rows.map((row) => String(row.key));
+}
+
+/**
+ * Stream the rows of a batch from a server-side cursor
+ * Filters, sort and projection work as for fetchBatchData; paging does not apply.
+ * The pool connection is held until the stream ends, fails or is destroyed.
+ * @param batchId - The batch to export
+ * @param query - Optional filters, sort and projection
+ * @returns Promise<Readable> - Object-mode stream of ExportRow
+ */
+export async function streamBatchRows(batchId: number, query: BatchRowQuery = {}): Promise<Readable> {
+  const statement = db
+    .select({ data: rowDataSelection(query.fields).as("data") })
+    .from(sheetData)
+    .innerJoin(batches, eq(batches.id, sheetData.batchId))
+    .where(
+      and(
+        eq(sheetData.batchId, batchId),
+        notInArray(batches.status, UNCOMMITTED_BATCH_STATUSES),
+        isNull(batches.deletedAt),
+        rowFilterConditions(query)
+      )
+    )
+    .orderBy(...rowOrder(query.sort))
+    .toSQL();
+
+  const client = await pool.connect().catch((error: unknown) => {
+    throw databaseError("Failed to open export cursor", error);
+  });
+
+  const stream = client.query(
+    new QueryStream(statement.sql, statement.params, { batchSize: EXPORT_BATCH_SIZE })
+  );
+
+  // Hand the connection back exactly once; a failed cursor takes its connection with it
+  let released = false;
+  const release = (error?: Error): void => {
+    if (!released) {
+      released = true;
+      client.release(error);
+    }
+  };
+  stream.once("error", release);
+  stream.once("close", () => release());
+
+  return stream;
+}
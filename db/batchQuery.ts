@@ -0,0 +1,197 @@
+// Translation of batch row queries (filters, sort, projection, cursor) into JSONB SQL
+import { and, asc, desc, gt, inArray, lt, sql, type SQL } from "drizzle-orm";
+import { sheetData } from "./schema";
+import type { BatchRowQuery, RowFilter, RowSort } from "../types";
+import { AppError } from "../utils/errors";
+
+/**
+ * Operators accepted by row filters
+ * - eq / neq: Text equality (numbers compare by their text, so 42 matches "42")
+ * - contains: Case-insensitive substring match
+ * - gt / lt: Numeric comparison when the value is a number, text comparison otherwise
+ * - in: Text equality with any of a list of values
+ */
+export const ROW_FILTER_OPERATORS = ["eq", "neq", "contains", "gt", "lt", "in"] as const;
+
+export type RowFilterOperator = (typeof ROW_FILTER_OPERATORS)[number];
+
+/**
+ * Position of the last row of a page, as handed back to clients in nextCursor
+ * - s: Sort the page was read with, so a cursor cannot be replayed against another order
+ * - v: Sort value of the row (data field sorts only)
+ * - r: Row number of the row
+ */
+interface RowCursor {
+  s: string;
+  v?: unknown;
+  r: number;
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Describe a sort as it appears in the query string (e.g. "-amount", "rowNumber")
+ */
+function sortKey(sort: RowSort | undefined): string {
+  return `${sort?.descending ? "-" : ""}${sort?.field ?? "rowNumber"}`;
+}
+
+/**
+ * A data field as JSONB (missing keys become JSON null, so they sort first)
+ */
+function jsonField(field: string): SQL {
+  return sql`coalesce(${sheetData.data} -> ${field}::text, 'null'::jsonb)`;
+}
+
+/**
+ * A data field as text, as returned by the ->> operator
+ */
+function textField(field: string): SQL {
+  return sql`(${sheetData.data} ->> ${field}::text)`;
+}
+
+/**
+ * Escape LIKE wildcards so that user input is matched literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+/**
+ * Build the WHERE condition for one row filter
+ * @param filter - Field, operator and value(s)
+ * @returns SQL
+ */
+export function rowFilterCondition(filter: RowFilter): SQL {
+  const text = textField(filter.field);
+  const value = Array.isArray(filter.value) ? filter.value[0] : filter.value;
+
+  switch (filter.operator) {
+    case "eq":
+      return sql`${text} = ${value}`;
+    case "neq":
+      return sql`${text} IS DISTINCT FROM ${value}`;
+    case "contains":
+      return sql`${text} ILIKE ${`%${escapeLike(value)}%`}`;
+    case "in":
+      return inArray(text, Array.isArray(filter.value) ? filter.value : [filter.value]);
+    case "gt":
+    case "lt": {
+      const operator = sql.raw(filter.operator === "gt" ? ">" : "<");
+      if (NUMBER_PATTERN.test(value)) {
+        // Only JSON numbers take part in numeric comparisons; the CASE keeps text out of the cast
+        return sql`(CASE WHEN jsonb_typeof(${sheetData.data} -> ${filter.field}::text) = 'number' THEN ${text}::numeric END) ${operator} ${value}::numeric`;
+      }
+      return sql`${text} ${operator} ${value}`;
+    }
+  }
+}
+
+/**
+ * Build the SELECT expression for the data column
+ * With a projection only the listed keys are kept (keys missing from a row are left out)
+ * @param fields - Keys to keep, or undefined for the whole row
+ * @returns SQL
+ */
+export function rowDataSelection(fields: string[] | undefined): SQL {
+  if (!fields || fields.length === 0) {
+    return sql`${sheetData.data}`;
+  }
+
+  return sql`coalesce((SELECT jsonb_object_agg(key, value) FROM jsonb_each(${sheetData.data}) WHERE key IN ${fields}), '{}'::jsonb)`;
+}
+
+/**
+ * Build the ORDER BY clause; row_number breaks ties so the order is stable for paging
+ * @param sort - Data field and direction, or undefined for row order
+ * @returns SQL[]
+ */
+export function rowOrder(sort: RowSort | undefined): SQL[] {
+  const direction = sort?.descending ? desc : asc;
+
+  return sort?.field
+    ? [direction(jsonField(sort.field)), direction(sheetData.rowNumber)]
+    : [direction(sheetData.rowNumber)];
+}
+
+/**
+ * Decode a nextCursor value into the condition selecting the rows after it
+ * @param query - The row query, including the cursor
+ * @returns SQL | undefined - undefined when there is no cursor
+ * @throws AppError (400) when the cursor is malformed or was issued for another sort
+ */
+export function rowCursorCondition(query: BatchRowQuery): SQL | undefined {
+  if (query.cursor === undefined) {
+    return undefined;
+  }
+
+  let cursor: RowCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(query.cursor, "base64url").toString("utf8")) as RowCursor;
+  } catch {
+    throw new AppError("Invalid cursor", "INVALID_CURSOR");
+  }
+
+  if (!cursor || !Number.isInteger(cursor.r) || typeof cursor.s !== "string") {
+    throw new AppError("Invalid cursor", "INVALID_CURSOR");
+  }
+
+  if (cursor.s !== sortKey(query.sort)) {
+    throw new AppError(`cursor was issued for sort=${cursor.s}`, "INVALID_CURSOR");
+  }
+
+  const after = query.sort?.descending ? lt : gt;
+  if (!query.sort?.field) {
+    return after(sheetData.rowNumber, cursor.r);
+  }
+
+  const operator = sql.raw(query.sort.descending ? "<" : ">");
+  return sql`(${jsonField(query.sort.field)}, ${sheetData.rowNumber}) ${operator} (${JSON.stringify(cursor.v ?? null)}::jsonb, ${cursor.r})`;
+}
+
+/**
+ * Build the cursor pointing after a row
+ * @param query - The row query the page was read with
+ * @param row - Last row of the page (its unprojected sort value and row number)
+ * @returns string - Opaque, URL-safe cursor
+ */
+export function encodeRowCursor(
+  query: BatchRowQuery,
+  row: { rowNumber: number; sortValue?: unknown }
+): string {
+  const cursor: RowCursor = { s: sortKey(query.sort), r: row.rowNumber };
+  if (query.sort?.field) {
+    cursor.v = row.sortValue ?? null;
+  }
+
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/**
+ * Combine the filter conditions of a query
+ * @param query - The row query
+ * @returns SQL | undefined
+ */
+export function rowFilterConditions(query: BatchRowQuery): SQL | undefined {
+  const filters = query.filters ?? [];
+  return filters.length > 0 ? and(...filters.map(rowFilterCondition)) : undefined;
+}
+
+/**
+ * Expression for the sort value of a row, read back to build the next cursor
+ * @param sort - Data field sort, if any
+ * @returns SQL
+ */
+export function rowSortValue(sort: RowSort | undefined): SQL {
+  return sort?.field ? jsonField(sort.field) : sql`${sheetData.rowNumber}`;
+}
+
+/**
+ * Whether a query can leave out rows of the batch (filters or a cursor)
+ * An empty page of such a query does not mean the batch has no rows
+ * @param query - The row query
+ * @returns boolean
+ */
+export function narrowsRows(query: BatchRowQuery): boolean {
+  return (query.filters?.length ?? 0) > 0 || query.cursor !== undefined;
+}
@@ -0,0 +1,415 @@
+// Batch allocation and lifecycle tracking
+import {
+  and,
+  arrayContains,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  notInArray,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { db } from "./client";
+import { batches, datasets, type Batch, type BatchStatus } from "./schema";
+import { mergePendingFor } from "./currentRecords";
+import { triggerWebhookDelivery } from "./webhookDelivery";
+import { queueBatchWebhooks } from "./webhooks";
+import type { BatchListFilters, BatchListPage, BatchSource } from "../types";
+import { AppError, databaseError } from "../utils/errors";
+
+/**
+ * Statuses of batches whose upload has not finished: still being stored (pending), or an
+ * upload session that was never committed
+ * Batches in these states are hidden from the read endpoints. A streamed upload's signature
+ * is only checked once its rows have been written, so they must not be readable before then.
+ */
+export const UNCOMMITTED_BATCH_STATUSES: BatchStatus[] = ["pending", "open", "aborted"];
+
+/**
+ * Work out the final status of a batch from its row counts
+ * @param expectedRows - Number of rows the upload contained
+ * @param insertedRows - Number of rows actually stored
+ * @returns BatchStatus - complete, partial or failed
+ */
+export function resolveBatchStatus(expectedRows: number, insertedRows: number): BatchStatus {
+  if (insertedRows >= expectedRows) {
+    return "complete";
+  }
+  if (insertedRows === 0) {
+    return "failed";
+  }
+  return "partial";
+}
+
+/**
+ * Everything needed to allocate a batch
+ * - datasetId: Dataset the batch belongs to
+ * - expectedRows: Number of rows the upload is going to insert
+ * - source: Optional metadata describing where the upload came from
+ * - status: Initial status (open for upload sessions, pending otherwise)
+ * - contentHash: Stable hash of the uploaded rows, when known up front
+ * - columns: Column names in sheet order, when known up front
+ * - apiKeyId: API key opening an upload session, which owns it
+ */
+export interface NewBatchParams {
+  datasetId: number;
+  expectedRows: number;
+  source?: BatchSource;
+  status?: BatchStatus;
+  contentHash?: string;
+  columns?: string[];
+  apiKeyId?: number;
+}
+
+/**
+ * Allocate a new batch
+ * The ID comes from the batches sequence, and the per-dataset batch number from the
+ * dataset row, which is locked for the duration of the allocation. Concurrent uploads
+ * therefore never share either number.
+ * @param params - Dataset, expected rows, source metadata, initial status and content hash
+ * @returns Promise<Batch> - The newly created batch
+ */
+export async function createBatch(params: NewBatchParams): Promise<Batch> {
+  const source = params.source ?? {};
+
+  const batch = await db
+    .transaction(async (tx) => {
+      const [allocated] = await tx
+        .update(datasets)
+        .set({ nextBatchNumber: sql`${datasets.nextBatchNumber} + 1` })
+        .where(eq(datasets.id, params.datasetId))
+        .returning({ batchNumber: sql<number>`${datasets.nextBatchNumber} - 1` });
+
+      if (!allocated) {
+        throw new AppError(`Dataset not found: ${params.datasetId}`, "DATASET_NOT_FOUND");
+      }
+
+      const [created] = await tx
+        .insert(batches)
+        .values({
+          datasetId: params.datasetId,
+          batchNumber: allocated.batchNumber,
+          status: params.status ?? "pending",
+          expectedRows: params.expectedRows,
+          contentHash: params.contentHash,
+          columns: params.columns,
+          spreadsheetId: source.spreadsheetId,
+          sheetName: source.sheetName,
+          uploadedBy: source.uploadedBy,
+          tags: source.tags ?? [],
+          apiKeyId: params.apiKeyId,
+        })
+        .returning();
+
+      return created;
+    })
+    .catch((error: unknown) => {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw databaseError("Failed to allocate batch", error);
+    });
+
+  if (!batch) {
+    throw new AppError("Failed to retrieve batch ID from database", "INTERNAL_ERROR");
+  }
+
+  return batch;
+}
+
+/**
+ * Get a batch by ID
+ * @param batchId - The batch
+ * @returns Promise<Batch | null>
+ */
+export async function getBatch(batchId: number): Promise<Batch | null> {
+  const [batch] = await db
+    .select()
+    .from(batches)
+    .where(eq(batches.id, batchId))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch batch", error);
+    });
+
+  return batch ?? null;
+}
+
+/**
+ * Whether a batch's rows can be read: it exists, its upload has finished and it has not
+ * been deleted
+ * @param batch - The batch, or null when it was not found
+ * @returns boolean
+ */
+export function isReadableBatch(batch: Batch | null): batch is Batch {
+  return (
+    batch !== null && !UNCOMMITTED_BATCH_STATUSES.includes(batch.status) && batch.deletedAt === null
+  );
+}
+
+/**
+ * Get a batch by its number within a dataset
+ * @param datasetId - The dataset
+ * @param batchNumber - Per-dataset batch number
+ * @returns Promise<Batch | null>
+ */
+export async function getBatchByNumber(
+  datasetId: number,
+  batchNumber: number
+): Promise<Batch | null> {
+  const [batch] = await db
+    .select()
+    .from(batches)
+    .where(and(eq(batches.datasetId, datasetId), eq(batches.batchNumber, batchNumber)))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch batch", error);
+    });
+
+  return batch ?? null;
+}
+
+/**
+ * Details of a batch that are only known once a streamed upload has been read
+ */
+export type BatchCompletion = Partial<Pick<Batch, "expectedRows" | "contentHash" | "columns">>;
+
+/**
+ * Record the outcome of an upload on its batch
+ * A complete or partial batch of a source with a key column is marked merge_pending. With an
+ * error count, matching webhooks are queued in the same transaction.
+ * @param batchId - The batch to finish
+ * @param insertedRows - Number of rows actually stored
+ * @param status - Final status of the batch
+ * @param completion - Row count, content hash and columns, when not known at allocation
+ * @param errorCount - Rows rejected or failed to insert, reported to webhooks (none are
+ *   queued when omitted)
+ * @returns Promise<Batch> - The updated batch
+ */
+export async function finishBatch(
+  batchId: number,
+  insertedRows: number,
+  status: BatchStatus,
+  completion: BatchCompletion = {},
+  errorCount?: number
+): Promise<Batch> {
+  const { batch, queued } = await db
+    .transaction(async (tx) => {
+      const [batch] = await tx
+        .update(batches)
+        .set({
+          ...completion,
+          insertedRows,
+          status,
+          finishedAt: new Date(),
+          mergePending: mergePendingFor(status),
+        })
+        .where(eq(batches.id, batchId))
+        .returning();
+
+      if (!batch) {
+        throw new AppError(`Batch not found: ${batchId}`, "BATCH_NOT_FOUND");
+      }
+
+      const queued = errorCount === undefined ? 0 : await queueBatchWebhooks(tx, batch, errorCount);
+      return { batch, queued };
+    })
+    .catch((error: unknown) => {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw databaseError("Failed to update batch status", error);
+    });
+
+  if (queued > 0) {
+    triggerWebhookDelivery();
+  }
+
+  return batch;
+}
+
+/**
+ * Delete a batch together with its rows
+ * Used when a streamed upload turns out to be a duplicate after it has been written
+ * @param batchId - The batch to delete
+ * @returns Promise<void>
+ */
+export async function deleteBatch(batchId: number): Promise<void> {
+  await db
+    .delete(batches)
+    .where(eq(batches.id, batchId))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to delete batch", error);
+    });
+}
+
+/**
+ * Statuses of batches that cannot be deleted or restored yet: their upload is still running
+ */
+const UNFINISHED_BATCH_STATUSES: BatchStatus[] = ["pending", "open"];
+
+/**
+ * Set or clear the deleted_at of a finished batch
+ * @throws AppError (404) when the batch does not exist or is an aborted session,
+ *   (409) while its upload is still running
+ */
+async function setBatchDeletedAt(batchId: number, deletedAt: Date | null): Promise<Batch> {
+  const batch = await getBatch(batchId);
+
+  if (!batch || batch.status === "aborted") {
+    throw new AppError(`Batch not found: ${batchId}`, "BATCH_NOT_FOUND");
+  }
+
+  if (UNFINISHED_BATCH_STATUSES.includes(batch.status)) {
+    throw new AppError(
+      `Batch ${batchId} is still being uploaded (status: ${batch.status})`,
+      "BATCH_IN_PROGRESS"
+    );
+  }
+
+  // Deleting a deleted batch (or restoring a live one) changes nothing
+  if ((batch.deletedAt === null) === (deletedAt === null)) {
+    return batch;
+  }
+
+  const [updated] = await db
+    .update(batches)
+    .set({ deletedAt })
+    .where(eq(batches.id, batchId))
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to update batch", error);
+    });
+
+  if (!updated) {
+    throw new AppError(`Batch not found: ${batchId}`, "BATCH_NOT_FOUND");
+  }
+
+  return updated;
+}
+
+/**
+ * Soft-delete a batch: it disappears from every read endpoint, but its rows are kept
+ * until the retention job purges them, and it can be restored until then
+ * Current records merged from the batch are left as they are.
+ * @param batchId - The batch to delete
+ * @returns Promise<Batch> - The deleted batch
+ * @throws AppError (404) when the batch does not exist, (409) while it is being uploaded
+ */
+export async function softDeleteBatch(batchId: number): Promise<Batch> {
+  return setBatchDeletedAt(batchId, new Date());
+}
+
+/**
+ * Restore a soft-deleted batch that has not been purged yet
+ * @param batchId - The batch to restore
+ * @returns Promise<Batch> - The restored batch
+ * @throws AppError (404) when the batch does not exist (or was purged)
+ */
+export async function restoreBatch(batchId: number): Promise<Batch> {
+  return setBatchDeletedAt(batchId, null);
+}
+
+/**
+ * Find the latest batch from the same sheet if it holds exactly the same rows
+ * Only committed batches that are complete or partial (and not deleted) are considered, and
+ * only the most recent one: re-uploading an older version of a sheet is not a duplicate.
+ * @param datasetId - Dataset the new upload goes to
+ * @param source - Source of the new upload (spreadsheetId is required to match anything)
+ * @param contentHash - Content hash of the new upload
+ * @returns Promise<Batch | null> - The matching batch, or null when the upload is new
+ */
+export async function findDuplicateBatch(
+  datasetId: number,
+  source: BatchSource,
+  contentHash: string
+): Promise<Batch | null> {
+  if (!source.spreadsheetId) {
+    return null;
+  }
+
+  const [latest] = await db
+    .select()
+    .from(batches)
+    .where(
+      and(
+        eq(batches.datasetId, datasetId),
+        eq(batches.spreadsheetId, source.spreadsheetId),
+        source.sheetName ? eq(batches.sheetName, source.sheetName) : isNull(batches.sheetName),
+        inArray(batches.status, ["complete", "partial"]),
+        isNull(batches.deletedAt)
+      )
+    )
+    .orderBy(desc(batches.id))
+    .limit(1)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to look up latest batch", error);
+    });
+
+  if (!latest || latest.contentHash !== contentHash) {
+    return null;
+  }
+
+  return latest;
+}
+
+/**
+ * List batches newest first, filtered by source metadata and start time
+ * Failed batches are left out unless explicitly requested through the status filter,
+ * and batches whose upload has not finished are never listed. Deleted batches are only listed, on
+ * their own, when filters.deleted is set.
+ * @param filters - Source, status and date filters plus cursor and page size
+ * @returns Promise<BatchListPage> - The page of batches and the cursor for the next one
+ */
+export async function listBatches(filters: BatchListFilters = {}): Promise<BatchListPage> {
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 500);
+  const conditions: SQL[] = [
+    notInArray(batches.status, UNCOMMITTED_BATCH_STATUSES),
+    filters.status ? eq(batches.status, filters.status) : notInArray(batches.status, ["failed"]),
+    filters.deleted ? isNotNull(batches.deletedAt) : isNull(batches.deletedAt),
+  ];
+
+  if (filters.datasetId) {
+    conditions.push(eq(batches.datasetId, filters.datasetId));
+  }
+  if (filters.spreadsheetId) {
+    conditions.push(eq(batches.spreadsheetId, filters.spreadsheetId));
+  }
+  if (filters.sheetName) {
+    conditions.push(eq(batches.sheetName, filters.sheetName));
+  }
+  if (filters.uploadedBy) {
+    conditions.push(eq(batches.uploadedBy, filters.uploadedBy));
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push(arrayContains(batches.tags, filters.tags));
+  }
+  if (filters.from) {
+    conditions.push(gte(batches.startedAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(batches.startedAt, filters.to));
+  }
+  if (filters.cursor) {
+    conditions.push(lt(batches.id, filters.cursor));
+  }
+
+  // Fetch one extra row to find out whether another page exists
+  const rows = await db
+    .select()
+    .from(batches)
+    .where(and(...conditions))
+    .orderBy(desc(batches.id))
+    .limit(limit + 1)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list batches", error);
+    });
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? page[page.length - 1].id : null;
+
+  return { batches: page, nextCursor };
+}
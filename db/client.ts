@@ -0,0 +1,39 @@
+// PostgreSQL pool and Drizzle instance shared by all database modules
+import { drizzle } from "drizzle-orm/node-postgres";
+import { Pool } from "pg";
+import * as schema from "./schema";
+import { config } from "../utils/config";
+import { Gauge } from "../utils/metrics";
+
+/**
+ * Create PostgreSQL connection pool
+ */
+export const pool = new Pool({
+  host: config.dbHost,
+  port: config.dbPort,
+  database: config.dbName,
+  user: config.dbUser,
+  password: config.dbPassword,
+  max: config.dbPoolMax,
+  idleTimeoutMillis: config.dbIdleTimeoutMs,
+  connectionTimeoutMillis: config.dbConnectionTimeoutMs,
+});
+
+// Pool usage, read when metrics are scraped
+new Gauge("sparti_pg_pool_connections", "Connections open in the pg pool", () => pool.totalCount);
+new Gauge("sparti_pg_pool_idle_connections", "Idle connections in the pg pool", () => pool.idleCount);
+new Gauge(
+  "sparti_pg_pool_waiting_requests",
+  "Queries waiting for a pg pool connection",
+  () => pool.waitingCount
+);
+
+/**
+ * Create Drizzle database instance
+ */
+export const db = drizzle(pool, { schema });
+
+/**
+ * Drizzle transaction handle, as passed to db.transaction callbacks
+ */
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
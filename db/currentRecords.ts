@@ -0,0 +1,250 @@
+// Current state of each source's records, merged from its uploads
+import { and, asc, eq, gt, isNull, lt, sql, type SQL } from "drizzle-orm";
+import { db, type Transaction } from "./client";
+import {
+  batches,
+  currentRecords,
+  sheetData,
+  sources,
+  type Batch,
+  type BatchStatus,
+} from "./schema";
+import { getSource } from "./sources";
+import type { CurrentRecordListFilters, CurrentRecordPage, CurrentRecordsSummary } from "../types";
+import { getErrorMessage, databaseError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+// Batches whose merge is retried per retention run
+const MERGE_RETRY_LIMIT = 100;
+
+/**
+ * Value of merge_pending for a batch reaching a final status, set in the same statement
+ * Complete and partial batches of a source with a key column are left to be merged.
+ * @param status - The batch's final status
+ * @returns SQL
+ */
+export function mergePendingFor(status: BatchStatus): SQL {
+  if (status !== "complete" && status !== "partial") {
+    return sql`false`;
+  }
+  return sql`EXISTS (
+    SELECT 1 FROM ${sources}
+    WHERE ${sources.spreadsheetId} = ${batches.spreadsheetId} AND ${sources.keyColumn} IS NOT NULL
+  )`;
+}
+
+/**
+ * Clear a batch's merge_pending mark
+ */
+async function clearMergePending(executor: typeof db | Transaction, batchId: number): Promise<void> {
+  await executor.update(batches).set({ mergePending: false }).where(eq(batches.id, batchId));
+}
+
+/**
+ * Merge the rows of a stored batch into current_records
+ * - Keys not seen before are inserted
+ * - Keys whose data differs (or that were deleted) are updated and take the batch's ID
+ * - With deleteMissing, live records whose key is not in the batch are soft-deleted
+ * Rows without a key value are skipped; a repeated key takes its last row. Records
+ * already merged from a newer batch are left alone, so batches finishing out of order
+ * cannot roll the state back.
+ * The batch's merge_pending mark is cleared in the same transaction. The batch row is locked
+ * first, so a retry cannot merge it at the same time as the upload that stored it.
+ * @param batch - The stored batch (must have a spreadsheetId)
+ * @param keyColumn - Data field identifying a record
+ * @param deleteMissing - Whether to soft-delete records missing from the batch
+ * @returns Promise<CurrentRecordsSummary | null> - null when the batch had already been merged
+ */
+export async function mergeCurrentRecords(
+  batch: Batch,
+  keyColumn: string,
+  deleteMissing: boolean
+): Promise<CurrentRecordsSummary | null> {
+  const spreadsheetId = batch.spreadsheetId ?? "";
+  const sheetName = batch.sheetName ?? "";
+
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ mergePending: batches.mergePending })
+      .from(batches)
+      .where(eq(batches.id, batch.id))
+      .for("update");
+
+    if (!current?.mergePending) {
+      return null;
+    }
+
+    const merged = await tx.execute(
+      sql`WITH incoming AS (
+          SELECT DISTINCT ON (k) ${sheetData.data} ->> ${keyColumn}::text AS k, ${sheetData.data} AS data
+          FROM ${sheetData}
+          WHERE ${sheetData.batchId} = ${batch.id} AND ${sheetData.data} ->> ${keyColumn}::text <> ''
+          ORDER BY k, ${sheetData.rowNumber} DESC
+        ), merged AS (
+          INSERT INTO current_records
+            (dataset_id, spreadsheet_id, sheet_name, record_key, data, batch_id, seen_batch_id)
+          SELECT ${batch.datasetId}, ${spreadsheetId}, ${sheetName}, k, data, ${batch.id}, ${batch.id}
+          FROM incoming
+          ON CONFLICT (dataset_id, spreadsheet_id, sheet_name, record_key) DO UPDATE SET
+            data = EXCLUDED.data,
+            seen_batch_id = EXCLUDED.seen_batch_id,
+            batch_id = CASE
+              WHEN current_records.data IS DISTINCT FROM EXCLUDED.data OR current_records.deleted_at IS NOT NULL
+              THEN EXCLUDED.batch_id ELSE current_records.batch_id END,
+            updated_at = CASE
+              WHEN current_records.data IS DISTINCT FROM EXCLUDED.data OR current_records.deleted_at IS NOT NULL
+              THEN CURRENT_TIMESTAMP ELSE current_records.updated_at END,
+            deleted_at = NULL
+          WHERE current_records.seen_batch_id < EXCLUDED.seen_batch_id
+          RETURNING (xmax = 0) AS inserted, batch_id
+        )
+        SELECT count(*) FILTER (WHERE inserted)::int AS inserted,
+          count(*) FILTER (WHERE NOT inserted AND batch_id = ${batch.id})::int AS updated,
+          count(*) FILTER (WHERE NOT inserted AND batch_id IS DISTINCT FROM ${batch.id})::int AS unchanged
+        FROM merged`
+    );
+
+    let deleted = 0;
+    if (deleteMissing) {
+      const now = new Date();
+      const result = await tx
+        .update(currentRecords)
+        .set({ deletedAt: now, updatedAt: now, batchId: batch.id, seenBatchId: batch.id })
+        .where(
+          and(
+            eq(currentRecords.datasetId, batch.datasetId),
+            eq(currentRecords.spreadsheetId, spreadsheetId),
+            eq(currentRecords.sheetName, sheetName),
+            isNull(currentRecords.deletedAt),
+            lt(currentRecords.seenBatchId, batch.id)
+          )
+        );
+      deleted = result.rowCount ?? 0;
+    }
+
+    await clearMergePending(tx, batch.id);
+
+    const [counts] = merged.rows;
+    return {
+      inserted: Number(counts?.inserted ?? 0),
+      updated: Number(counts?.updated ?? 0),
+      unchanged: Number(counts?.unchanged ?? 0),
+      deleted,
+    };
+  });
+}
+
+/**
+ * Merge a finished batch into current_records when it is marked merge_pending
+ * The mark is set with the batch's final status (see mergePendingFor). Missing keys are only
+ * deleted after a complete upload (a partial one may be missing rows that failed to insert).
+ * A failed merge is logged rather than thrown: the batch itself is stored and keeps its mark,
+ * so the retention job merges it again (see retryPendingMerges).
+ * @param batch - The finished batch
+ * @returns Promise<CurrentRecordsSummary | null | undefined> - undefined when there is
+ *   nothing to merge, null when the merge failed
+ */
+export async function syncCurrentRecords(
+  batch: Batch
+): Promise<CurrentRecordsSummary | null | undefined> {
+  if (!batch.mergePending) {
+    return undefined;
+  }
+
+  try {
+    const source = batch.spreadsheetId ? await getSource(batch.spreadsheetId) : null;
+
+    // The key column was removed since the batch finished: there is nothing to merge
+    if (!source?.keyColumn) {
+      await clearMergePending(db, batch.id);
+      return undefined;
+    }
+
+    const summary = await mergeCurrentRecords(
+      batch,
+      source.keyColumn,
+      source.deleteMissing && batch.status === "complete"
+    );
+    if (summary) {
+      logger.info("Merged batch into current records", { batchId: batch.id, ...summary });
+    }
+    return summary ?? undefined;
+  } catch (error: unknown) {
+    logger.error("Failed to merge batch into current records", {
+      batchId: batch.id,
+      error: getErrorMessage(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Merge the batches whose merge into current_records failed, oldest first
+ * Run by the retention job, at most MERGE_RETRY_LIMIT batches at a time. Soft-deleted
+ * batches are skipped until they are restored.
+ * @returns Promise<number> - Number of batches merged
+ * @throws AppError (500) when the batches cannot be looked up
+ */
+export async function retryPendingMerges(): Promise<number> {
+  const pending = await db
+    .select()
+    .from(batches)
+    .where(and(eq(batches.mergePending, true), isNull(batches.deletedAt)))
+    .orderBy(asc(batches.id))
+    .limit(MERGE_RETRY_LIMIT)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to find batches pending a merge", error);
+    });
+
+  let merged = 0;
+  for (const batch of pending) {
+    if (await syncCurrentRecords(batch)) {
+      merged++;
+    }
+  }
+  return merged;
+}
+
+/**
+ * List current records in the order they were first stored
+ * @param filters - Dataset, source, deleted records, cursor and page size
+ * @returns Promise<CurrentRecordPage>
+ */
+export async function listCurrentRecords(
+  filters: CurrentRecordListFilters = {}
+): Promise<CurrentRecordPage> {
+  const limit = Math.min(Math.max(filters.limit ?? 1000, 1), 10000);
+  const conditions: SQL[] = [];
+
+  if (filters.datasetId) {
+    conditions.push(eq(currentRecords.datasetId, filters.datasetId));
+  }
+  if (filters.spreadsheetId) {
+    conditions.push(eq(currentRecords.spreadsheetId, filters.spreadsheetId));
+  }
+  if (filters.sheetName !== undefined) {
+    conditions.push(eq(currentRecords.sheetName, filters.sheetName));
+  }
+  if (!filters.includeDeleted) {
+    conditions.push(isNull(currentRecords.deletedAt));
+  }
+  if (filters.cursor) {
+    conditions.push(gt(currentRecords.id, filters.cursor));
+  }
+
+  // Fetch one extra row to find out whether another page exists
+  const rows = await db
+    .select()
+    .from(currentRecords)
+    .where(and(...conditions))
+    .orderBy(asc(currentRecords.id))
+    .limit(limit + 1)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list current records", error);
+    });
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? page[page.length - 1].id : null;
+
+  return { records: page, nextCursor };
+}
@@ -0,0 +1,159 @@
+// Named datasets: separate namespaces for batch numbering and listing
+import { asc, eq } from "drizzle-orm";
+import { db } from "./client";
+import { datasets, type Dataset } from "./schema";
+import { AppError, databaseError } from "../utils/errors";
+import { compileRowSchema, type RowSchema } from "../utils/rowSchema";
+
+/**
+ * Dataset used by the routes that do not name one (e.g. /api/upload-sheet-data)
+ */
+export const DEFAULT_DATASET_SLUG = "default";
+
+/**
+ * Dataset slugs: lowercase letters, digits, dashes and underscores
+ */
+const DATASET_SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+/**
+ * Check that a dataset slug is well formed
+ * @param slug - Proposed slug
+ * @throws AppError (400) when the slug is invalid
+ */
+export function validateDatasetSlug(slug: string): void {
+  if (!DATASET_SLUG_PATTERN.test(slug)) {
+    throw new AppError(
+      `Invalid dataset name: ${slug}. Use 1-63 lowercase letters, digits, dashes or underscores.`,
+      "INVALID_REQUEST"
+    );
+  }
+}
+
+/**
+ * Get a dataset by slug
+ * @param slug - Dataset slug
+ * @returns Promise<Dataset>
+ * @throws AppError (404) when the dataset does not exist
+ */
+export async function getDataset(slug: string): Promise<Dataset> {
+  const [dataset] = await db
+    .select()
+    .from(datasets)
+    .where(eq(datasets.slug, slug))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch dataset", error);
+    });
+
+  if (!dataset) {
+    throw new AppError(`Dataset not found: ${slug}`, "DATASET_NOT_FOUND");
+  }
+
+  return dataset;
+}
+
+/**
+ * Get a dataset by ID
+ * @param id - Dataset ID
+ * @returns Promise<Dataset>
+ * @throws AppError (404) when the dataset does not exist
+ */
+export async function getDatasetById(id: number): Promise<Dataset> {
+  const [dataset] = await db
+    .select()
+    .from(datasets)
+    .where(eq(datasets.id, id))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch dataset", error);
+    });
+
+  if (!dataset) {
+    throw new AppError(`Dataset not found: ${id}`, "DATASET_NOT_FOUND");
+  }
+
+  return dataset;
+}
+
+/**
+ * List every dataset
+ * @returns Promise<Dataset[]> - Datasets ordered by slug
+ */
+export async function listDatasets(): Promise<Dataset[]> {
+  return db
+    .select()
+    .from(datasets)
+    .orderBy(asc(datasets.slug))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list datasets", error);
+    });
+}
+
+/**
+ * Create a dataset
+ * @param slug - URL-safe dataset name
+ * @param description - Optional description
+ * @returns Promise<Dataset>
+ * @throws AppError (409) when a dataset with this slug already exists
+ */
+export async function createDataset(slug: string, description?: string): Promise<Dataset> {
+  validateDatasetSlug(slug);
+
+  const [dataset] = await db
+    .insert(datasets)
+    .values({ slug, description })
+    .onConflictDoNothing({ target: datasets.slug })
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to create dataset", error);
+    });
+
+  if (!dataset) {
+    throw new AppError(`Dataset already exists: ${slug}`, "DATASET_EXISTS");
+  }
+
+  return dataset;
+}
+
+/**
+ * Register, replace or remove the row schema of a dataset
+ * The schema is compiled first, so a malformed one is never stored
+ * @param slug - Dataset slug
+ * @param rowSchema - Column spec or JSON Schema, or null to stop validating
+ * @param strict - Reject whole uploads that lack a required column
+ * @returns Promise<Dataset>
+ * @throws AppError (400) when the schema is invalid, (404) when the dataset does not exist
+ */
+export async function setDatasetSchema(
+  slug: string,
+  rowSchema: unknown,
+  strict: boolean = false
+): Promise<Dataset> {
+  if (rowSchema !== null) {
+    compileRowSchema(rowSchema);
+  }
+
+  const [dataset] = await db
+    .update(datasets)
+    .set({ rowSchema, strictSchema: rowSchema !== null && strict })
+    .where(eq(datasets.slug, slug))
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to update dataset schema", error);
+    });
+
+  if (!dataset) {
+    throw new AppError(`Dataset not found: ${slug}`, "DATASET_NOT_FOUND");
+  }
+
+  return dataset;
+}
+
+/**
+ * Compile the row schema registered on a dataset
+ * @param dataset - The dataset
+ * @returns RowSchema | null - null when the dataset accepts rows of any shape
+ */
+export function getDatasetRowSchema(dataset: Dataset): RowSchema | null {
+  return dataset.rowSchema === null || dataset.rowSchema === undefined
+    ? null
+    : compileRowSchema(dataset.rowSchema);
+}
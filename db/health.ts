@@ -0,0 +1,44 @@
+// Database health for the readiness probe: whether the pool can still run a query
+import { pool } from "./client";
+import { getErrorMessage } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+// A result is reused for this long, so frequent probes do not each take a connection
+const CHECK_CACHE_MS = 5000;
+
+let lastCheck: { at: number; usable: boolean } | null = null;
+// The check in progress, shared by probes arriving meanwhile
+let pendingCheck: Promise<boolean> | null = null;
+
+/**
+ * Run a trivial query through the pool
+ */
+async function queryPool(): Promise<boolean> {
+  const usable = await pool
+    .query("SELECT 1")
+    .then(() => true)
+    .catch((error: unknown) => {
+      logger.warn("Database health check failed", { error: getErrorMessage(error) });
+      return false;
+    });
+
+  lastCheck = { at: Date.now(), usable };
+  return usable;
+}
+
+/**
+ * Check that the pool can run queries, reusing a result up to CHECK_CACHE_MS old
+ * @returns Promise<boolean> - true if a query succeeded
+ */
+export async function isDatabaseUsable(): Promise<boolean> {
+  if (lastCheck && Date.now() - lastCheck.at < CHECK_CACHE_MS) {
+    return lastCheck.usable;
+  }
+
+  if (!pendingCheck) {
+    pendingCheck = queryPool().finally(() => {
+      pendingCheck = null;
+    });
+  }
+  return pendingCheck;
+}
@@ -0,0 +1,174 @@
+// Storage for Idempotency-Key request deduplication
+import { randomUUID } from "crypto";
+import { and, eq, isNull, sql, type SQL } from "drizzle-orm";
+import { db } from "./client";
+import { idempotencyKeys, type IdempotencyKey } from "./schema";
+import { databaseError } from "../utils/errors";
+
+/**
+ * Outcome of claiming an idempotency key
+ * - claimed: first use of the key (or the previous use expired, or its request stopped
+ *   renewing its lease); the request should run
+ * - replay: the key finished with the same payload; return the stored response
+ * - mismatch: the key was used with a different payload
+ * - in_progress: the first request with this key has not finished yet and still holds its lease
+ */
+export type IdempotencyClaim =
+  | { state: "claimed"; token: string }
+  | { state: "replay"; record: IdempotencyKey }
+  | { state: "mismatch" }
+  | { state: "in_progress" };
+
+/**
+ * Lease expiry for a claim renewed now
+ */
+function leaseUntil(leaseSeconds: number): SQL {
+  return sql`now() + make_interval(secs => ${leaseSeconds}::int)`;
+}
+
+/**
+ * Claim an idempotency key for a request
+ * Keys older than the window are treated as unused and claimed again. A key whose request
+ * stopped renewing its lease without storing a response (the process died) is taken over
+ * by a retry with the same payload.
+ * @param key - Value of the Idempotency-Key header
+ * @param requestHash - Hash of the request payload
+ * @param windowHours - How long a key stays bound to its first response
+ * @param leaseSeconds - How long the claim holds without being renewed
+ * @returns Promise<IdempotencyClaim>
+ */
+export async function claimIdempotencyKey(
+  key: string,
+  requestHash: string,
+  windowHours: number,
+  leaseSeconds: number
+): Promise<IdempotencyClaim> {
+  const expiredBefore = sql`now() - make_interval(hours => ${windowHours})`;
+  const token = randomUUID();
+
+  const claimed = await db
+    .insert(idempotencyKeys)
+    .values({ key, requestHash, lockedUntil: leaseUntil(leaseSeconds), claimToken: token })
+    .onConflictDoUpdate({
+      target: idempotencyKeys.key,
+      set: {
+        requestHash,
+        statusCode: null,
+        response: null,
+        batchId: null,
+        createdAt: sql`now()`,
+        completedAt: null,
+        lockedUntil: leaseUntil(leaseSeconds),
+        claimToken: token,
+      },
+      where: sql`${idempotencyKeys.createdAt} < ${expiredBefore}
+        OR (${idempotencyKeys.statusCode} IS NULL
+          AND ${idempotencyKeys.lockedUntil} < now()
+          AND ${idempotencyKeys.requestHash} = ${requestHash})`,
+    })
+    .returning({ key: idempotencyKeys.key })
+    .catch((error: unknown) => {
+      throw databaseError("Failed to claim idempotency key", error);
+    });
+
+  if (claimed.length > 0) {
+    return { state: "claimed", token };
+  }
+
+  const [record] = await db
+    .select()
+    .from(idempotencyKeys)
+    .where(eq(idempotencyKeys.key, key))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to load idempotency key", error);
+    });
+
+  // Deleted between the two statements: the previous request failed and released it
+  if (!record) {
+    return claimIdempotencyKey(key, requestHash, windowHours, leaseSeconds);
+  }
+
+  if (record.requestHash !== requestHash) {
+    return { state: "mismatch" };
+  }
+
+  if (record.statusCode === null) {
+    return { state: "in_progress" };
+  }
+
+  return { state: "replay", record };
+}
+
+/**
+ * Match a key only while the claim with this token holds it
+ */
+function heldBy(key: string, token: string): SQL | undefined {
+  return and(eq(idempotencyKeys.key, key), eq(idempotencyKeys.claimToken, token));
+}
+
+/**
+ * Extend the lease of a claimed key whose request is still running
+ * @param key - The claimed key
+ * @param token - Token returned by the claim
+ * @param leaseSeconds - How long the claim holds from now
+ * @returns Promise<void>
+ */
+export async function renewIdempotencyKey(
+  key: string,
+  token: string,
+  leaseSeconds: number
+): Promise<void> {
+  await db
+    .update(idempotencyKeys)
+    .set({ lockedUntil: leaseUntil(leaseSeconds) })
+    .where(and(heldBy(key, token), isNull(idempotencyKeys.statusCode)))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to renew idempotency key", error);
+    });
+}
+
+/**
+ * Store the response of the request that claimed a key
+ * Nothing is stored once another request has taken the key over.
+ * @param key - The claimed key
+ * @param token - Token returned by the claim
+ * @param statusCode - HTTP status sent to the client
+ * @param response - JSON body sent to the client
+ * @param batchId - Batch created by the request, if any
+ * @returns Promise<boolean> - false when the claim no longer held the key
+ */
+export async function completeIdempotencyKey(
+  key: string,
+  token: string,
+  statusCode: number,
+  response: unknown,
+  batchId: number | null
+): Promise<boolean> {
+  const completed = await db
+    .update(idempotencyKeys)
+    .set({ statusCode, response, batchId, completedAt: new Date() })
+    .where(heldBy(key, token))
+    .returning({ key: idempotencyKeys.key })
+    .catch((error: unknown) => {
+      throw databaseError("Failed to store idempotent response", error);
+    });
+
+  return completed.length > 0;
+}
+
+/**
+ * Release a claimed key so that a retry can run the request again
+ * Used when the request failed with a server error. A key taken over by another request
+ * is left to it.
+ * @param key - The claimed key
+ * @param token - Token returned by the claim
+ * @returns Promise<void>
+ */
+export async function releaseIdempotencyKey(key: string, token: string): Promise<void> {
+  await db
+    .delete(idempotencyKeys)
+    .where(heldBy(key, token))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to release idempotency key", error);
+    });
+}
@@ -1,331 +1,238 @@
 // Drizzle ORM database connection and utilities
-import { drizzle } from "drizzle-orm/node-postgres";
-import { Pool } from "pg";
-import { sheetData, type SheetData } from "./schema";
-import { eq, asc } from "drizzle-orm";
-import type { StoreSheetDataResult, SheetDataRow, RowError } from "../types";
-import { AppError, getErrorMessage, formatErrorMessage } from "../utils/errors";
-import dotenv from "dotenv";
-
-dotenv.config();
-
-/**
- * Create PostgreSQL connection pool
- */
-const pool = new Pool({
-  host: process.env.DB_HOST || "localhost",
-  port: parseInt(process.env.DB_PORT || "5432", 10),
-  database: process.env.DB_NAME || "sparti_db",
-  user: process.env.DB_USER || "postgres",
-  password: process.env.DB_PASSWORD || "",
-  max: 20,
-  idleTimeoutMillis: 30000,
-  connectionTimeoutMillis: 2000,
-});
-
-/**
- * Create Drizzle database instance
- */
-export const db = drizzle(pool, { schema: { sheetData } });
-
-/**
- * Test database connection
- * @returns Promise<boolean> - true if connection successful, false otherwise
- */
-export async function testConnection(): Promise<boolean> {
-  const queryResult = await pool.query("SELECT NOW()").catch((error: unknown) => {
-    console.error(
-      "[testing] Database connection error:",
-      getErrorMessage(error)
-    );
-    return null;
-  });
-
-  if (!queryResult) {
-    return false;
-  }
-
-  console.log("[testing] Database connection successful");
-  return true;
-}
-
-/**
- * Initialize database schema (create tables if they don't exist)
- * Run migrations using: npm run db:migrate
- * @returns Promise<void>
- */
-export async function initializeSchema(): Promise<void> {
-  const queryResult = await pool.query(`
-    CREATE TABLE IF NOT EXISTS sheet_data (
-      id SERIAL PRIMARY KEY,
-      batch_id INTEGER NOT NULL,
-      row_number INTEGER NOT NULL,
-      data JSONB NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      CONSTRAINT unique_batch_row UNIQUE (batch_id, row_number)
-    );
-    
-    CREATE INDEX IF NOT EXISTS idx_sheet_data_batch_id ON sheet_data(batch_id);
-    CREATE INDEX IF NOT EXISTS idx_sheet_data_row_number ON sheet_data(batch_id, row_number);
-  `).catch((error: unknown) => {
-    const errorMessage = formatErrorMessage(
-      "Schema initialization error",
-      getErrorMessage(error)
-    );
-    console.error(`[testing] ${errorMessage}`);
-    throw new AppError(errorMessage, 500);
-  });
-
-  if (queryResult) {
-    console.log("[testing] Schema initialized successfully");
-  }
-}
-
-/**
- * Get the next batch ID for a new upload
- * @param tableName - Name of the table (default: 'sheet_data')
- * @returns Promise<number> - The next batch ID
- */
-async function getNextBatchId(tableName: string = "sheet_data"): Promise<number> {
-  const batchIdResult = await pool.query(`
-    SELECT COALESCE(MAX(batch_id), 0) + 1 AS next_batch_id 
-    FROM ${tableName}
-  `).catch((error: unknown) => {
-    const errorMessage = formatErrorMessage(
-      "Failed to get next batch ID",
-      getErrorMessage(error)
-    );
-    throw new AppError(errorMessage, 500);
-  });
-
-  if (!batchIdResult || !batchIdResult.rows[0]) {
-    throw new AppError("Failed to retrieve batch ID from database", 500);
-  }
-
-  const batchId = parseInt(batchIdResult.rows[0].next_batch_id as string, 10);
-
-  if (isNaN(batchId)) {
-    throw new AppError("Invalid batch ID returned from database", 500);
-  }
-
-  return batchId;
-}
-
-/**
- * Insert rows in chunks to avoid stack overflow with large datasets
- * @param insertData - Array of data to insert
- * @param sheetDataArray - Original sheet data array for error reporting
- * @param chunkSize - Number of rows to insert per chunk (default: 5000)
- * @returns Promise<{inserted: number, errors: RowError[]}>
- */
-async function insertRowsInChunks(
-  insertData: Array<{ batchId: number; rowNumber: number; data: SheetDataRow }>,
-  sheetDataArray: SheetDataRow[],
-  chunkSize: number = 5000
-): Promise<{ inserted: number; errors: RowError[] }> {
-  let insertedCount = 0;
-  const errors: RowError[] = [];
-  const totalChunks = Math.ceil(insertData.length / chunkSize);
-
-  console.log(`[testing] Inserting ${insertData.length} rows in ${totalChunks} chunks of ${chunkSize}`);
-
-  for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
-    const start = chunkIndex * chunkSize;
-    const end = Math.min(start + chunkSize, insertData.length);
-    const chunk = insertData.slice(start, end);
-    const chunkNumber = chunkIndex + 1;
-
-    // Try to insert the chunk
-    const chunkResult = await db.insert(sheetData).values(chunk).catch((chunkError: unknown) => {
-      const errorMessage = getErrorMessage(chunkError);
-      console.warn(
-        `[testing] Chunk ${chunkNumber}/${totalChunks} failed, inserting individually:`,
-        errorMessage
-      );
-      return null;
-    });
-
-    if (chunkResult) {
-      // Chunk insert succeeded
-      insertedCount += chunk.length;
-      if (chunkNumber % 10 === 0 || chunkNumber === totalChunks) {
-        console.log(
-          `[testing] Progress: ${chunkNumber}/${totalChunks} chunks inserted (${insertedCount}/${insertData.length} rows)`
-        );
-      }
-    } else {
-      // Chunk insert failed, try individual inserts for this chunk
-      for (let i = start; i < end; i++) {
-        const insertResult = await db.insert(sheetData).values(insertData[i]).catch((rowError: unknown) => {
-          const errorMessage = getErrorMessage(rowError);
-          errors.push({
-            rowIndex: i,
-            rowNumber: i + 1,
-            rowData: sheetDataArray[i],
-            error: errorMessage,
-          });
-          return null;
-        });
-
-        if (insertResult) {
-          insertedCount++;
-        }
-      }
-    }
-  }
-
-  return { inserted: insertedCount, errors };
-}
+import { pool, db } from "./client";
+import { batches, sheetData } from "./schema";
+import {
+  createBatch,
+  finishBatch,
+  resolveBatchStatus,
+  UNCOMMITTED_BATCH_STATUSES,
+} from "./batches";
+import { resolveCoercion, resolveUploadMode } from "./sources";
+import { getDataset, getDatasetRowSchema, DEFAULT_DATASET_SLUG } from "./datasets";
+import { syncCurrentRecords } from "./currentRecords";
+import { saveRejectedRows } from "./rejectedRows";
+import { copyBatchRows, copyBatchRowsAtomically } from "./rows";
+import {
+  encodeRowCursor,
+  rowCursorCondition,
+  rowDataSelection,
+  rowFilterConditions,
+  rowOrder,
+  rowSortValue,
+} from "./batchQuery";
+import { and, eq, getTableColumns, isNull, notInArray } from "drizzle-orm";
+import type {
+  StoreSheetDataResult,
+  StoreSheetDataOptions,
+  InsertProgress,
+  SheetDataRow,
+  RowError,
+  BatchRowQuery,
+  BatchRowPage,
+} from "../types";
+import { AppError, databaseError } from "../utils/errors";
+import { coerceRow } from "../utils/coercion";
+import { hashRows } from "../utils/hash";
+import { assertRequiredColumns, validateRows } from "../utils/rowSchema";
+import { collectColumns } from "../utils/rows";
+import { logger } from "../utils/logger";
+import { recordUpload } from "../utils/metrics";
 
 /**
  * Store sheet data to PostgreSQL using Drizzle ORM
- * All rows from the same upload share the same batch_id
+ * Each upload allocates a row in the batches table, and all of its rows share that batch_id
  * Each row has a row_number for sorting purposes
+ * Rows are written with COPY; a failing chunk is bisected to report the rows that failed
+ * In atomic mode either every row is stored or none are, and the batch is marked failed
+ * Cell values are coerced using the source's column type hints before validation
+ * When the source has a key column, the stored rows are merged into current_records
+ * Once the batch has finished, matching webhooks are queued for a batch.completed delivery
+ * Rows that fail the dataset's row schema are reported as errors and not stored
+ * Outside atomic mode, failed rows are kept in rejected_rows so they can be replayed
+ * options.onProgress is called after each chunk of rows is inserted
  * @param sheetDataArray - Array of row objects from Google Sheets
- * @param tableName - Name of the table (default: 'sheet_data', must match schema)
+ * @param options - Source metadata and upload mode
  * @returns Promise<StoreSheetDataResult>
  */
 export async function storeSheetData(
   sheetDataArray: SheetDataRow[],
-  tableName: string = "sheet_data"
+  options: StoreSheetDataOptions = {}
 ): Promise<StoreSheetDataResult> {
   // Early return for invalid input
   if (!sheetDataArray || !Array.isArray(sheetDataArray)) {
     throw new AppError(
       "sheetData must be an array",
-      400
+      "INVALID_REQUEST"
     );
   }
 
   if (sheetDataArray.length === 0) {
     throw new AppError(
       "sheetData array cannot be empty",
-      400
+      "INVALID_REQUEST"
     );
   }
 
-  // Get the next batch_id
-  const batchId = await getNextBatchId(tableName);
-  const totalRows = sheetDataArray.length;
-  console.log(`[testing] Generated batch_id: ${batchId} for ${totalRows} rows`);
-
-  // Prepare data for batch insert
-  const insertData = sheetDataArray.map((row, index) => ({
-    batchId,
-    rowNumber: index + 1, // 1-indexed
-    data: row, // Drizzle will automatically handle JSONB conversion
-  }));
-
-  // For large datasets (>10000 rows), use chunked inserts to avoid stack overflow
-  const CHUNK_SIZE = 5000;
-  const useChunkedInserts = totalRows > 10000;
+  const dataset = options.dataset ?? (await getDataset(DEFAULT_DATASET_SLUG));
+  const source = options.source ?? {};
+  const mode = await resolveUploadMode(options.mode, source.spreadsheetId);
+  const contentHash = options.contentHash ?? hashRows(sheetDataArray);
 
-  if (useChunkedInserts) {
-    console.log(`[testing] Large dataset detected (${totalRows} rows), using chunked inserts`);
-    const { inserted, errors } = await insertRowsInChunks(insertData, sheetDataArray, CHUNK_SIZE);
+  // Apply the source's column type hints; the content hash stays that of the upload as sent
+  const coercion = await resolveCoercion(source.spreadsheetId);
+  const rows = coercion ? sheetDataArray.map((row) => coerceRow(row, coercion)) : sheetDataArray;
 
-    console.log(
-      `[testing] Completed: Inserted ${inserted}/${totalRows} rows with batch_id: ${batchId}, ${errors.length} errors`
-    );
-
-    return {
-      success: true,
-      batchId,
-      inserted,
-      errors,
-    };
+  // Check rows against the dataset's row schema before allocating anything
+  const rowSchema = getDatasetRowSchema(dataset);
+  if (rowSchema && dataset.strictSchema) {
+    assertRequiredColumns(rowSchema, rows);
   }
-
-  // For smaller datasets, try single batch insert first
-  const batchInsertResult = await db.insert(sheetData).values(insertData).catch((insertError: unknown) => {
-    console.warn(
-      `[testing] Batch insert failed, attempting chunked inserts:`,
-      getErrorMessage(insertError)
-    );
-    return null;
+  const rejected = rowSchema ? validateRows(rowSchema, rows) : [];
+  const rejectedRowNumbers = new Set(rejected.map((rowError) => rowError.rowNumber));
+
+  // Allocate the batch before touching sheet_data
+  const totalRows = rows.length;
+  const batch = await createBatch({
+    datasetId: dataset.id,
+    expectedRows: totalRows,
+    source,
+    contentHash,
+    columns: options.columns ?? collectColumns(rows),
+  });
+  const batchId = batch.id;
+  logger.info("Allocated batch", {
+    batchId,
+    dataset: dataset.slug,
+    batchNumber: batch.batchNumber,
+    totalRows,
+    mode,
   });
 
-  // If batch insert succeeded
-  if (batchInsertResult) {
-    console.log(
-      `[testing] Successfully inserted ${totalRows} rows with batch_id: ${batchId}`
-    );
-    return {
-      success: true,
+  // Prepare data for batch insert, leaving out rows the schema rejected
+  const insertData = rows
+    .map((row, index) => ({
       batchId,
-      inserted: totalRows,
-      errors: [],
-    };
-  }
+      rowNumber: index + 1, // 1-indexed
+      data: row, // Drizzle will automatically handle JSONB conversion
+    }))
+    .filter((row) => !rejectedRowNumbers.has(row.rowNumber));
+
+  // Progress is reported against this batch, for callers tracking a long insert
+  const onProgress = options.onProgress
+    ? (progress: InsertProgress) => options.onProgress?.({ ...progress, batchId, totalRows })
+    : undefined;
+
+  // In atomic mode a single rejected row means nothing is stored
+  const skipInsert = insertData.length === 0 || (mode === "atomic" && rejected.length > 0);
+  const insertion = skipInsert
+    ? Promise.resolve({ inserted: 0, errors: [] as RowError[] })
+    : mode === "atomic"
+      ? copyBatchRowsAtomically(insertData, 1, onProgress)
+      : copyBatchRows(insertData, 1, onProgress);
+
+  const { inserted, errors: insertErrors } = await insertion.catch(
+    async (error: unknown) => {
+      await finishBatch(batchId, 0, "failed").catch(() => null);
+      recordUpload("json", "failed", 0, rejected.length);
+      throw error;
+    }
+  );
+  const errors = [...rejected, ...insertErrors].sort((a, b) => a.rowNumber - b.rowNumber);
 
-  // Fallback to chunked inserts
-  const { inserted, errors } = await insertRowsInChunks(insertData, sheetDataArray, CHUNK_SIZE);
+  const status = resolveBatchStatus(totalRows, inserted);
+  const finished = await finishBatch(batchId, inserted, status, {}, errors.length);
+  recordUpload("json", status, inserted, errors.length);
+  if (mode !== "atomic") {
+    await saveRejectedRows(batchId, errors);
+  }
+  const currentRecords = await syncCurrentRecords(finished);
 
-  console.log(
-    `[testing] Inserted ${inserted}/${totalRows} rows with batch_id: ${batchId}, ${errors.length} errors`
-  );
+  logger.info("Stored upload", {
+    batchId,
+    status,
+    inserted,
+    totalRows,
+    errorCount: errors.length,
+  });
 
   return {
     success: true,
     batchId,
+    dataset: dataset.slug,
+    batchNumber: batch.batchNumber,
+    mode,
+    status,
     inserted,
     errors,
+    currentRecords,
   };
 }
 
 /**
- * Fetch all rows for a specific batch_id, ordered by row_number
+ * Fetch the rows of a batch, ordered by row_number unless another sort is given
+ * Filters, sort and projection are run in SQL against the JSONB data column.
+ * Rows of batches whose upload has not finished, and of deleted batches, are never returned
  * @param batchId - The batch_id to fetch
- * @returns Promise<SheetData[]> - Array of row objects
+ * @param query - Optional filters, sort, projection and paging (every row by default)
+ * @returns Promise<BatchRowPage> - The rows and the cursor for the next page
  */
-export async function fetchBatchData(batchId: number): Promise<SheetData[]> {
+export async function fetchBatchData(
+  batchId: number,
+  query: BatchRowQuery = {}
+): Promise<BatchRowPage> {
   if (isNaN(batchId) || batchId < 1) {
     throw new AppError(
       `Invalid batchId: ${batchId}. Must be a positive number.`,
-      400
+      "INVALID_REQUEST"
     );
   }
 
-  const rows = await db
-    .select()
+  const conditions = [
+    eq(sheetData.batchId, batchId),
+    notInArray(batches.status, UNCOMMITTED_BATCH_STATUSES),
+    isNull(batches.deletedAt),
+    rowFilterConditions(query),
+    rowCursorCondition(query),
+  ];
+
+  const selection = db
+    .select({
+      ...getTableColumns(sheetData),
+      data: rowDataSelection(query.fields),
+      sortValue: rowSortValue(query.sort),
+    })
     .from(sheetData)
-    .where(eq(sheetData.batchId, batchId))
-    .orderBy(asc(sheetData.rowNumber))
-    .catch((error: unknown) => {
-      const errorMessage = formatErrorMessage(
-        "Failed to fetch batch data",
-        getErrorMessage(error)
-      );
-      throw new AppError(errorMessage, 500);
-    });
-
-  return rows;
-}
-
-/**
- * Get all batch IDs (useful for listing all uploads)
- * @returns Promise<number[]> - Array of batch IDs
- */
-export async function getAllBatchIds(): Promise<number[]> {
-  const result = await pool.query(`
-    SELECT DISTINCT batch_id 
-    FROM sheet_data 
-    ORDER BY batch_id DESC
-  `).catch((error: unknown) => {
-    const errorMessage = formatErrorMessage(
-      "Failed to fetch batch IDs",
-      getErrorMessage(error)
-    );
-    throw new AppError(errorMessage, 500);
-  });
+    .innerJoin(batches, eq(batches.id, sheetData.batchId))
+    .where(and(...conditions))
+    .orderBy(...rowOrder(query.sort));
+
+  // Fetch one extra row to find out whether another page exists
+  const rows = await (query.limit ? selection.limit(query.limit + 1) : selection).catch(
+    (error: unknown) => {
+      throw databaseError("Failed to fetch batch data", error);
+    }
+  );
 
-  if (!result || !result.rows) {
-    return [];
-  }
+  const page = query.limit ? rows.slice(0, query.limit) : rows;
+  const last = page[page.length - 1];
+  const nextCursor = query.limit && rows.length > query.limit ? encodeRowCursor(query, last) : null;
 
-  return result.rows.map((row: { batch_id: number }) => row.batch_id);
+  return {
+    rows: page.map(({ sortValue: _sortValue, ...row }) => row),
+    nextCursor,
+  };
 }
 
-// Export pool for advanced usage if needed
-export { pool };
+export {
+  listBatches,
+  findDuplicateBatch,
+  getBatch,
+  getBatchByNumber,
+  isReadableBatch,
+} from "./batches";
+export { narrowsRows } from "./batchQuery";
+export { storeSheetDataStream } from "./streamedUploads";
+
+// Export pool and db for advanced usage if needed
+export { pool, db };
 
@@ -0,0 +1,282 @@
+// Ingestion job worker: claims queued uploads and stores them, recording progress as it goes
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./client";
+import { batches, sheetData } from "./schema";
+import { storeSheetData } from "./index";
+import { getDataset } from "./datasets";
+import type { IngestJobOptions } from "./jobs";
+import type { SheetDataRow, StoreSheetDataResult, UploadProgress } from "../types";
+import { getErrorMessage } from "../utils/errors";
+import { logger, withLogContext, withoutLogContext } from "../utils/logger";
+import { config } from "../utils/config";
+
+// Seconds between polls of the queue; 0 disables the worker in this process
+const JOB_POLL_INTERVAL_SECONDS = config.jobPollIntervalSeconds;
+
+// How often a running job shows it is still alive
+const HEARTBEAT_SECONDS = 30;
+// A running job silent for this long is given up on (its worker has died)
+const STALE_JOB_SECONDS = 5 * 60;
+// Row errors kept on a finished job; error_count has the full number
+const MAX_JOB_ERRORS = 1000;
+
+/**
+ * A queued job claimed by this worker, with its upload
+ */
+interface ClaimedJob {
+  id: number;
+  datasetSlug: string;
+  rows: SheetDataRow[];
+  options: IngestJobOptions;
+}
+
+// The worker run in progress, if any
+let run: Promise<void> | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+// Set on shutdown: no further jobs are claimed
+let stopped = false;
+
+/**
+ * Fail running jobs whose worker stopped sending heartbeats, and the batches they were writing
+ * The rows written so far are deleted in the same transaction, as a failed batch's rows
+ * would otherwise still be served.
+ */
+async function failStaleJobs(): Promise<void> {
+  const stale = await db.transaction(async (tx) => {
+    const jobs = await tx.execute(
+      sql`UPDATE ingest_jobs
+        SET status = 'failed', error = 'Worker stopped before the job finished',
+          rows = NULL, options = NULL, finished_at = CURRENT_TIMESTAMP
+        WHERE status = 'running'
+          AND heartbeat_at < CURRENT_TIMESTAMP - make_interval(secs => ${STALE_JOB_SECONDS}::int)
+        RETURNING id, batch_id`
+    );
+
+    const batchIds = jobs.rows
+      .filter((row) => row.batch_id !== null)
+      .map((row) => Number(row.batch_id));
+    if (batchIds.length > 0) {
+      const failed = await tx
+        .update(batches)
+        .set({ status: "failed", insertedRows: 0, finishedAt: new Date() })
+        .where(and(inArray(batches.id, batchIds), eq(batches.status, "pending")))
+        .returning({ id: batches.id });
+
+      const failedIds = failed.map((batch) => batch.id);
+      if (failedIds.length > 0) {
+        await tx.delete(sheetData).where(inArray(sheetData.batchId, failedIds));
+      }
+    }
+
+    return jobs.rows;
+  });
+
+  for (const row of stale) {
+    logger.warn("Ingest job stalled, marked failed", { jobId: row.id });
+  }
+}
+
+/**
+ * Claim the oldest queued job
+ * SKIP LOCKED lets workers in several processes share the queue.
+ */
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const result = await db.execute(
+    sql`UPDATE ingest_jobs j
+      SET status = 'running', started_at = CURRENT_TIMESTAMP, heartbeat_at = CURRENT_TIMESTAMP
+      FROM datasets d
+      WHERE d.id = j.dataset_id AND j.id = (
+        SELECT id FROM ingest_jobs
+        WHERE status = 'queued'
+        ORDER BY id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING j.id, d.slug, j.rows, j.options`
+  );
+
+  const [row] = result.rows;
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: Number(row.id),
+    datasetSlug: String(row.slug),
+    rows: row.rows as SheetDataRow[],
+    options: row.options as IngestJobOptions,
+  };
+}
+
+/**
+ * Store the progress of a running job
+ * Failures are logged: progress is only informative, and the job carries on.
+ */
+async function recordProgress(jobId: number, progress: UploadProgress): Promise<void> {
+  await db
+    .execute(
+      sql`UPDATE ingest_jobs
+        SET batch_id = ${progress.batchId}, inserted_rows = ${progress.inserted},
+          chunk = ${progress.chunk}, total_chunks = ${progress.totalChunks},
+          heartbeat_at = CURRENT_TIMESTAMP
+        WHERE id = ${jobId} AND status = 'running'`
+    )
+    .catch((error: unknown) => {
+      logger.error("Failed to record ingest job progress", { error: getErrorMessage(error) });
+    });
+}
+
+/**
+ * Show that a job is still running, between two chunks
+ */
+async function recordHeartbeat(jobId: number): Promise<void> {
+  await db
+    .execute(
+      sql`UPDATE ingest_jobs SET heartbeat_at = CURRENT_TIMESTAMP
+        WHERE id = ${jobId} AND status = 'running'`
+    )
+    .catch((error: unknown) => {
+      logger.error("Failed to record ingest job heartbeat", { error: getErrorMessage(error) });
+    });
+}
+
+/**
+ * Store the outcome of a job, dropping its queued rows
+ * @param jobId - The job
+ * @param outcome - The stored upload, or the reason it failed
+ */
+async function finishJob(
+  jobId: number,
+  outcome: { result: StoreSheetDataResult } | { error: string }
+): Promise<void> {
+  const update =
+    "result" in outcome
+      ? sql`status = 'complete', batch_id = ${outcome.result.batchId},
+          batch_status = ${outcome.result.status}, inserted_rows = ${outcome.result.inserted},
+          errors = ${JSON.stringify(outcome.result.errors.slice(0, MAX_JOB_ERRORS))}::jsonb,
+          error_count = ${outcome.result.errors.length}`
+      : sql`status = 'failed', error = ${outcome.error}`;
+
+  await db
+    .execute(
+      sql`UPDATE ingest_jobs
+        SET ${update}, rows = NULL, options = NULL,
+          heartbeat_at = CURRENT_TIMESTAMP, finished_at = CURRENT_TIMESTAMP
+        WHERE id = ${jobId} AND status = 'running'`
+    )
+    .catch((error: unknown) => {
+      logger.error("Failed to finish ingest job", { error: getErrorMessage(error) });
+    });
+}
+
+/**
+ * Store a claimed job's upload, as a synchronous upload would be stored
+ * Progress writes are chained so they land in order, and all land before the outcome.
+ */
+async function runJob(job: ClaimedJob): Promise<void> {
+  logger.info("Running ingest job", { totalRows: job.rows.length });
+
+  let writes: Promise<void> = Promise.resolve();
+  const heartbeat = setInterval(() => {
+    writes = writes.then(() => recordHeartbeat(job.id));
+  }, HEARTBEAT_SECONDS * 1000);
+  heartbeat.unref();
+
+  try {
+    const dataset = await getDataset(job.datasetSlug);
+    const result = await storeSheetData(job.rows, {
+      dataset,
+      source: job.options.source,
+      mode: job.options.mode,
+      contentHash: job.options.contentHash,
+      columns: job.options.columns,
+      onProgress: (progress) => {
+        writes = writes.then(() => recordProgress(job.id, progress));
+      },
+    });
+
+    await writes;
+    await finishJob(job.id, { result });
+    logger.info("Ingest job complete", {
+      batchId: result.batchId,
+      status: result.status,
+      errorCount: result.errors.length,
+    });
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    await writes;
+    await finishJob(job.id, { error: errorMessage });
+    logger.warn("Ingest job failed", { error: errorMessage });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Run queued jobs one at a time, until none are left
+ * @returns Promise<number> - Number of jobs run
+ */
+export async function runQueuedJobs(): Promise<number> {
+  await failStaleJobs();
+
+  let ran = 0;
+  while (!stopped) {
+    const job = await claimNextJob();
+    if (!job) {
+      return ran;
+    }
+
+    // Lines logged by the job carry its ID and the ID of the request that queued it
+    await withLogContext({ requestId: job.options.requestId, jobId: job.id }, () => runJob(job));
+    ran++;
+  }
+  return ran;
+}
+
+/**
+ * Start a worker run unless one is already going
+ * Called on every poll, and right after a job is queued so it starts at once.
+ */
+export function triggerJobWorker(): void {
+  if (run || stopped || !(JOB_POLL_INTERVAL_SECONDS > 0)) {
+    return;
+  }
+
+  run = withoutLogContext(runQueuedJobs)
+    .then(() => undefined)
+    .catch((error: unknown) => {
+      logger.error("Ingest job run failed", { error: getErrorMessage(error) });
+    })
+    .finally(() => {
+      run = null;
+    });
+}
+
+/**
+ * Poll the job queue every JOB_POLL_INTERVAL_SECONDS, in this process
+ * The timer does not keep the process alive on its own.
+ * @returns NodeJS.Timeout | null - The timer, or null when the worker is disabled
+ */
+export function startJobWorker(): NodeJS.Timeout | null {
+  if (!(JOB_POLL_INTERVAL_SECONDS > 0)) {
+    logger.info("Ingest job worker disabled");
+    return null;
+  }
+
+  pollTimer = setInterval(triggerJobWorker, JOB_POLL_INTERVAL_SECONDS * 1000);
+  pollTimer.unref();
+  logger.info("Ingest job worker polling", { intervalSeconds: JOB_POLL_INTERVAL_SECONDS });
+  return pollTimer;
+}
+
+/**
+ * Stop polling and claiming jobs, and wait for the job being run to finish
+ * A job cut off by the process exiting is failed once its heartbeat is missed.
+ */
+export async function stopJobWorker(): Promise<void> {
+  stopped = true;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+  }
+  await run;
+}
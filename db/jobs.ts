@@ -0,0 +1,93 @@
+// Asynchronous ingestion jobs: queueing uploads and reading their progress
+import { eq, getTableColumns } from "drizzle-orm";
+import { db } from "./client";
+import { ingestJobs, type Dataset, type IngestJob, type UploadMode } from "./schema";
+import { triggerJobWorker } from "./jobWorker";
+import type { BatchSource, SheetDataRow } from "../types";
+import { AppError, databaseError } from "../utils/errors";
+import { getLogContext, logger } from "../utils/logger";
+
+/**
+ * Job as returned by the API (never includes the queued rows)
+ */
+export type IngestJobSummary = Omit<IngestJob, "rows" | "options">;
+
+/**
+ * Upload options kept with a queued job, passed on to storeSheetData by the worker
+ */
+export interface IngestJobOptions {
+  source: BatchSource;
+  mode?: UploadMode;
+  contentHash: string;
+  columns?: string[];
+  // ID of the request that queued the job, carried into the worker's log lines
+  requestId?: string;
+}
+
+/**
+ * Everything needed to queue an upload
+ * - apiKeyId: API key queueing the upload, which owns the job
+ */
+export interface NewIngestJobParams extends IngestJobOptions {
+  dataset: Dataset;
+  rows: SheetDataRow[];
+  apiKeyId?: number;
+}
+
+// Every column but the queued upload itself
+const { rows: _rows, options: _options, ...summaryColumns } = getTableColumns(ingestJobs);
+
+/**
+ * Queue an upload for the job worker
+ * @param params - The dataset, rows and upload options
+ * @returns Promise<IngestJobSummary> - The queued job
+ */
+export async function createIngestJob(params: NewIngestJobParams): Promise<IngestJobSummary> {
+  const options: IngestJobOptions = {
+    source: params.source,
+    mode: params.mode,
+    contentHash: params.contentHash,
+    columns: params.columns,
+    requestId: getLogContext().requestId,
+  };
+
+  const [job] = await db
+    .insert(ingestJobs)
+    .values({
+      datasetId: params.dataset.id,
+      rows: params.rows,
+      options,
+      totalRows: params.rows.length,
+      apiKeyId: params.apiKeyId,
+    })
+    .returning(summaryColumns)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to queue ingest job", error);
+    });
+
+  logger.info("Queued ingest job", { jobId: job.id, totalRows: job.totalRows });
+  triggerJobWorker();
+  return job;
+}
+
+/**
+ * Get a job by ID
+ * @param id - The job's ID
+ * @returns Promise<IngestJobSummary>
+ * @throws AppError (404) when there is no such job
+ */
+export async function getIngestJob(id: number): Promise<IngestJobSummary> {
+  const [job] = await db
+    .select(summaryColumns)
+    .from(ingestJobs)
+    .where(eq(ingestJobs.id, id))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch ingest job", error);
+    });
+
+  if (!job) {
+    throw new AppError(`Job not found: ${id}`, "JOB_NOT_FOUND");
+  }
+
+  return job;
+}
@@ -0,0 +1,326 @@
+// Versioned schema migrations: applies the SQL that drizzle-kit generates from db/schema.ts
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { PoolClient } from "pg";
+import { pool } from "./client";
+import { AppError, databaseError, isAppError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+// Folder drizzle-kit writes migrations to (`out` in drizzle.config.ts), from the working directory
+const MIGRATIONS_FOLDER = path.resolve("drizzle");
+
+// Upgrade run on databases set up before migrations existed, ahead of baselining them
+const UNVERSIONED_UPGRADE_FILE = path.join(MIGRATIONS_FOLDER, "legacy", "upgrade.sql");
+
+// drizzle-kit separates the statements of a migration with this marker
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+
+// Advisory lock held while migrating, so that two processes never apply the same migration
+const MIGRATION_LOCK_KEY = 5_317_042;
+
+/**
+ * A migration in the migrations folder
+ * - version: Position in drizzle-kit's journal, from 0
+ * - tag: File name without .sql, e.g. "0000_baseline"
+ * - hash: SHA-256 of the file, to notice a migration edited after it was applied
+ */
+export interface Migration {
+  version: number;
+  tag: string;
+  hash: string;
+  statements: string[];
+}
+
+/**
+ * A migration recorded in schema_migrations
+ * - baselined: Recorded without being run, as the database already had its tables
+ */
+export interface AppliedMigration {
+  version: number;
+  tag: string;
+  hash: string;
+  baselined: boolean;
+  appliedAt: Date;
+}
+
+/**
+ * How the database compares to the migrations folder
+ * - pending: Migrations not applied yet (the database is behind)
+ * - unknown: Applied migrations missing from the folder (the database is ahead)
+ * - changed: Applied migrations whose file has been edited since
+ */
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  unknown: AppliedMigration[];
+  changed: Migration[];
+}
+
+/**
+ * Entry of drizzle-kit's meta/_journal.json
+ */
+interface JournalEntry {
+  idx: number;
+  tag: string;
+}
+
+/**
+ * Split a migration file into its statements
+ */
+function splitStatements(content: string): string[] {
+  return content
+    .split(STATEMENT_BREAKPOINT)
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.length > 0);
+}
+
+/**
+ * Read the migrations listed in drizzle-kit's journal, in order
+ */
+export function readMigrations(): Migration[] {
+  const journalPath = path.join(MIGRATIONS_FOLDER, "meta", "_journal.json");
+  if (!existsSync(journalPath)) {
+    throw new AppError(`No migrations found: ${journalPath} does not exist`);
+  }
+
+  const journal = JSON.parse(readFileSync(journalPath, "utf8")) as { entries: JournalEntry[] };
+
+  return journal.entries.map((entry) => {
+    const content = readFileSync(path.join(MIGRATIONS_FOLDER, `${entry.tag}.sql`), "utf8");
+    return {
+      version: entry.idx,
+      tag: entry.tag,
+      hash: createHash("sha256").update(content).digest("hex"),
+      statements: splitStatements(content),
+    };
+  });
+}
+
+/**
+ * Read the migrations recorded in schema_migrations; none when the table does not exist yet
+ */
+async function readAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const table = await client.query("SELECT to_regclass('schema_migrations') AS name");
+  if (table.rows[0].name === null) {
+    return [];
+  }
+
+  const result = await client.query(
+    `SELECT version, tag, hash, baselined, applied_at AS "appliedAt"
+    FROM schema_migrations
+    ORDER BY version`
+  );
+  return result.rows as AppliedMigration[];
+}
+
+/**
+ * Compare the migrations folder with the applied migrations
+ */
+function compareMigrations(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus {
+  const appliedByVersion = new Map(applied.map((migration) => [migration.version, migration]));
+  const versions = new Set(migrations.map((migration) => migration.version));
+
+  return {
+    applied,
+    pending: migrations.filter((migration) => !appliedByVersion.has(migration.version)),
+    unknown: applied.filter((migration) => !versions.has(migration.version)),
+    changed: migrations.filter((migration) => {
+      const record = appliedByVersion.get(migration.version);
+      return record !== undefined && record.hash !== migration.hash;
+    }),
+  };
+}
+
+/**
+ * Throw when the database has migrations this release does not know, or whose file changed
+ * Migrating then could not bring it to a known state, so nothing is applied.
+ */
+function assertNotAhead(status: MigrationStatus): void {
+  if (status.unknown.length > 0) {
+    throw new AppError(
+      `Database is ahead of this release: ${formatTags(status.unknown)} applied but not in ${MIGRATIONS_FOLDER}`,
+      "SCHEMA_OUT_OF_DATE",
+      { unknown: status.unknown.map((migration) => migration.tag) }
+    );
+  }
+  if (status.changed.length > 0) {
+    throw new AppError(
+      `Migrations edited after they were applied: ${formatTags(status.changed)}`,
+      "SCHEMA_OUT_OF_DATE",
+      { changed: status.changed.map((migration) => migration.tag) }
+    );
+  }
+}
+
+/**
+ * List migration tags for a message
+ */
+function formatTags(migrations: { tag: string }[]): string {
+  return migrations.map((migration) => migration.tag).join(", ");
+}
+
+/**
+ * Check whether the database was set up before migrations existed, by the DDL that
+ * used to run on every start (every release of it created sheet_data)
+ */
+async function hasUnversionedSchema(client: PoolClient): Promise<boolean> {
+  const result = await client.query("SELECT to_regclass('sheet_data') AS name");
+  return result.rows[0].name !== null;
+}
+
+/**
+ * List the tables a migration creates that the database does not have
+ */
+async function findMissingTables(client: PoolClient, migration: Migration): Promise<string[]> {
+  const tables = migration.statements.flatMap((statement) =>
+    [...statement.matchAll(/CREATE TABLE IF NOT EXISTS "(\w+)"/g)].map((match) => match[1])
+  );
+
+  const result = await client.query(
+    `SELECT name FROM unnest($1::text[]) AS name WHERE to_regclass(quote_ident(name)) IS NULL`,
+    [tables]
+  );
+  return result.rows.map((row: { name: string }) => row.name);
+}
+
+/**
+ * Bring a database set up before migrations existed up to the first migration, then check
+ * that it has every table that migration creates
+ * The upgrade is the schema setup those releases ran on every start: it creates whatever an
+ * older release had not, and backfills batches and datasets for the rows stored by then.
+ */
+async function upgradeUnversionedSchema(client: PoolClient, baseline: Migration): Promise<void> {
+  for (const statement of splitStatements(readFileSync(UNVERSIONED_UPGRADE_FILE, "utf8"))) {
+    await client.query(statement);
+  }
+
+  const missing = await findMissingTables(client, baseline);
+  if (missing.length > 0) {
+    throw new AppError(
+      `Cannot baseline ${baseline.tag}: tables ${missing.join(", ")} are missing after the upgrade`,
+      "SCHEMA_OUT_OF_DATE",
+      { missing }
+    );
+  }
+}
+
+/**
+ * Run work on a connection of its own, holding the migration lock
+ */
+async function withMigrationLock<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect().catch((error: unknown) => {
+    throw databaseError("Failed to connect to the database", error);
+  });
+
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    const result = await work(client);
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    client.release();
+    return result;
+  } catch (error: unknown) {
+    // Discarding the connection also releases the lock
+    client.release(true);
+    throw error;
+  }
+}
+
+/**
+ * Compare the database with the migrations folder, without changing anything
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const migrations = readMigrations();
+  const client = await pool.connect().catch((error: unknown) => {
+    throw databaseError("Failed to connect to the database", error);
+  });
+
+  const applied = await readAppliedMigrations(client)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to read applied migrations", error);
+    })
+    .finally(() => client.release());
+
+  return compareMigrations(migrations, applied);
+}
+
+/**
+ * Throw unless every migration in the folder, and no other, has been applied
+ * The server checks this before it serves traffic.
+ */
+export async function assertSchemaCurrent(): Promise<void> {
+  const status = await getMigrationStatus();
+
+  assertNotAhead(status);
+  if (status.pending.length > 0) {
+    throw new AppError(
+      `Database is behind this release: ${formatTags(status.pending)} not applied (run npm run db:migrate)`,
+      "SCHEMA_OUT_OF_DATE",
+      { pending: status.pending.map((migration) => migration.tag) }
+    );
+  }
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction, recording them in
+ * schema_migrations
+ * A database whose tables predate migrations is upgraded to the first migration, which is
+ * then recorded as baselined instead of run.
+ * @returns The migrations applied or baselined
+ */
+export async function runMigrations(): Promise<Migration[]> {
+  const migrations = readMigrations();
+
+  return withMigrationLock(async (client) => {
+    await client
+      .query(
+        `CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          tag TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          baselined BOOLEAN NOT NULL DEFAULT false,
+          applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )`
+      )
+      .catch((error: unknown) => {
+        throw databaseError("Failed to create schema_migrations", error);
+      });
+
+    const status = compareMigrations(migrations, await readAppliedMigrations(client));
+    assertNotAhead(status);
+
+    const [first] = status.pending;
+    const baseline =
+      status.applied.length === 0 && first?.version === 0 && (await hasUnversionedSchema(client));
+
+    for (const migration of status.pending) {
+      const baselined = baseline && migration === first;
+
+      await client.query("BEGIN");
+      try {
+        if (baselined) {
+          await upgradeUnversionedSchema(client, migration);
+        } else {
+          for (const statement of migration.statements) {
+            await client.query(statement);
+          }
+        }
+        await client.query(
+          "INSERT INTO schema_migrations (version, tag, hash, baselined) VALUES ($1, $2, $3, $4)",
+          [migration.version, migration.tag, migration.hash, baselined]
+        );
+        await client.query("COMMIT");
+      } catch (error: unknown) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        throw isAppError(error) ? error : databaseError(`Migration ${migration.tag} failed`, error);
+      }
+
+      logger.info(baselined ? "Migration baselined" : "Migration applied", {
+        version: migration.version,
+        tag: migration.tag,
+      });
+    }
+
+    return status.pending;
+  });
+}
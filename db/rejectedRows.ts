@@ -0,0 +1,301 @@
+// Rejected rows of best-effort uploads: keeping them, listing them and replaying them
+import { and, asc, eq, gt, inArray, sql } from "drizzle-orm";
+import { db, type Transaction } from "./client";
+import { batches, rejectedRows, type Batch, type RejectedRow } from "./schema";
+import { resolveBatchStatus } from "./batches";
+import { getDatasetById, getDatasetRowSchema } from "./datasets";
+import { resolveCoercion } from "./sources";
+import { mergePendingFor, syncCurrentRecords } from "./currentRecords";
+import { copyTransaction, type SheetDataInsert } from "./rows";
+import type {
+  RejectedRowEntry,
+  RejectedRowFilters,
+  RejectedRowPage,
+  RejectionReplay,
+  RejectionReplayResult,
+  RowError,
+  SheetDataRow,
+} from "../types";
+import { AppError, getErrorMessage, databaseError } from "../utils/errors";
+import { coerceRow } from "../utils/coercion";
+import { validateRows } from "../utils/rowSchema";
+import { logger } from "../utils/logger";
+import { rowsInsertedTotal, rowsRejectedTotal } from "../utils/metrics";
+
+// Rejections written per statement (six parameters each)
+const SAVE_CHUNK_SIZE = 1000;
+
+/**
+ * Insert or update one set of rejections in a single statement
+ * The statement runs in its own transaction (a savepoint inside a transaction), so a
+ * failing one leaves the enclosing transaction usable.
+ */
+async function writeRejections(
+  executor: typeof db | Transaction,
+  batchId: number,
+  errors: RowError[]
+): Promise<void> {
+  await executor.transaction((inner) =>
+    inner
+      .insert(rejectedRows)
+      .values(
+        errors.map((rowError) => ({
+          batchId,
+          rowNumber: rowError.rowNumber,
+          rowData: JSON.stringify(rowError.rowData),
+          error: rowError.error,
+          fieldErrors: rowError.fieldErrors ?? null,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [rejectedRows.batchId, rejectedRows.rowNumber],
+        set: {
+          rowData: sql`EXCLUDED.row_data`,
+          error: sql`EXCLUDED.error`,
+          fieldErrors: sql`EXCLUDED.field_errors`,
+          attempts: sql`${rejectedRows.attempts} + 1`,
+          updatedAt: sql`CURRENT_TIMESTAMP`,
+        },
+      })
+  );
+}
+
+/**
+ * Insert or update the rejections of a batch; a row rejected again keeps its latest
+ * data and error, and its attempt count goes up
+ * When a set fails (an error message Postgres cannot store), its rows are written one by
+ * one so the others are still kept.
+ * @returns Promise<number> - Number of rejections written
+ */
+async function upsertRejections(
+  executor: typeof db | Transaction,
+  batchId: number,
+  errors: RowError[]
+): Promise<number> {
+  let written = 0;
+
+  for (let start = 0; start < errors.length; start += SAVE_CHUNK_SIZE) {
+    const chunk = errors.slice(start, start + SAVE_CHUNK_SIZE);
+    const chunkWritten = await writeRejections(executor, batchId, chunk).then(
+      () => true,
+      () => false
+    );
+
+    if (chunkWritten) {
+      written += chunk.length;
+      continue;
+    }
+
+    for (const rowError of chunk) {
+      await writeRejections(executor, batchId, [rowError]).then(
+        () => written++,
+        (error: unknown) => {
+          logger.warn("Could not keep rejected row", {
+            batchId,
+            rowNumber: rowError.rowNumber,
+            error: getErrorMessage(error),
+          });
+        }
+      );
+    }
+  }
+
+  return written;
+}
+
+/**
+ * Parse the stored data of a rejected row
+ */
+function toEntry(rejection: RejectedRow): RejectedRowEntry {
+  return { ...rejection, rowData: JSON.parse(rejection.rowData) as SheetDataRow };
+}
+
+/**
+ * Keep the failed rows of a best-effort upload so they can be listed and replayed
+ * A failure is logged rather than thrown: the rest of the batch is stored either way,
+ * and the errors are still in the upload's response.
+ * @param batchId - The batch the rows belong to
+ * @param errors - The upload's row errors
+ * @returns Promise<number> - Number of rejected rows kept
+ */
+export async function saveRejectedRows(batchId: number, errors: RowError[]): Promise<number> {
+  if (errors.length === 0) {
+    return 0;
+  }
+
+  try {
+    const kept = await upsertRejections(db, batchId, errors);
+    logger.info("Kept rejected rows", { batchId, kept });
+    return kept;
+  } catch (error: unknown) {
+    logger.error("Failed to keep rejected rows", { batchId, error: getErrorMessage(error) });
+    return 0;
+  }
+}
+
+/**
+ * List the rows of a batch that are still rejected, in row order
+ * @param batchId - The batch
+ * @param filters - Cursor (the last row number seen) and page size
+ * @returns Promise<RejectedRowPage>
+ */
+export async function listRejectedRows(
+  batchId: number,
+  filters: RejectedRowFilters = {}
+): Promise<RejectedRowPage> {
+  const limit = Math.min(Math.max(filters.limit ?? 100, 1), 1000);
+
+  // Fetch one extra row to find out whether another page exists
+  const rows = await db
+    .select()
+    .from(rejectedRows)
+    .where(
+      and(
+        eq(rejectedRows.batchId, batchId),
+        filters.cursor ? gt(rejectedRows.rowNumber, filters.cursor) : undefined
+      )
+    )
+    .orderBy(asc(rejectedRows.rowNumber))
+    .limit(limit + 1)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list rejected rows", error);
+    });
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? page[page.length - 1].rowNumber : null;
+
+  return { rejections: page.map(toEntry), nextCursor };
+}
+
+/**
+ * Attempt rejected rows again, into their batch at their original row_number
+ * Corrected data is coerced with the source's column type hints and checked against the
+ * dataset's row schema, as an upload would be; rows replayed as stored are used as they
+ * were last attempted. Rows that are stored stop being rejected and count towards the
+ * batch's inserted rows and status; the others keep their latest data and error.
+ * When rows were stored, the batch is marked merge_pending and merged into current_records again.
+ * @param batch - The batch (must be readable)
+ * @param replay - Rows to replay and corrected data; every rejected row when empty
+ * @returns Promise<RejectionReplayResult>
+ * @throws AppError (404) when a requested row is not rejected, (409) when the batch is
+ *   still being stored
+ */
+export async function replayRejectedRows(
+  batch: Batch,
+  replay: RejectionReplay = {}
+): Promise<RejectionReplayResult> {
+  if (batch.status === "pending") {
+    throw new AppError(`Batch ${batch.id} is still being stored`, "BATCH_IN_PROGRESS");
+  }
+
+  const dataset = await getDatasetById(batch.datasetId);
+  const rowSchema = getDatasetRowSchema(dataset);
+  const coercion = await resolveCoercion(batch.spreadsheetId ?? undefined);
+
+  const corrections = new Map((replay.rows ?? []).map((row) => [row.rowNumber, row.data]));
+  const selected = [...new Set([...(replay.rowNumbers ?? []), ...corrections.keys()])];
+
+  const outcome = await copyTransaction(async (tx, copyRows) => {
+    // Lock the batch so concurrent replays of it run one after the other
+    const [current] = await tx
+      .select()
+      .from(batches)
+      .where(eq(batches.id, batch.id))
+      .for("update");
+
+    const pending = await tx
+      .select()
+      .from(rejectedRows)
+      .where(
+        and(
+          eq(rejectedRows.batchId, batch.id),
+          selected.length > 0 ? inArray(rejectedRows.rowNumber, selected) : undefined
+        )
+      )
+      .orderBy(asc(rejectedRows.rowNumber));
+
+    const found = new Set(pending.map((rejection) => rejection.rowNumber));
+    const missing = selected.filter((rowNumber) => !found.has(rowNumber));
+    if (missing.length > 0) {
+      throw new AppError(
+        `No rejected rows in batch ${batch.id} with row numbers: ${missing.join(", ")}`,
+        "REJECTED_ROW_NOT_FOUND"
+      );
+    }
+
+    const candidates: SheetDataInsert[] = pending.map((rejection) => {
+      const corrected = corrections.get(rejection.rowNumber);
+      const data =
+        corrected === undefined
+          ? toEntry(rejection).rowData
+          : coercion
+            ? coerceRow(corrected, coercion)
+            : corrected;
+      return { batchId: batch.id, rowNumber: rejection.rowNumber, data };
+    });
+
+    // Rows that still fail the row schema are not attempted
+    const rejected = rowSchema
+      ? validateRows(rowSchema, candidates.map((candidate) => candidate.data)).map(
+          (rowError) => {
+            const { rowNumber } = candidates[rowError.rowIndex];
+            return { ...rowError, rowIndex: rowNumber - 1, rowNumber };
+          }
+        )
+      : [];
+    const rejectedRowNumbers = new Set(rejected.map((rowError) => rowError.rowNumber));
+    const insertData = candidates.filter((row) => !rejectedRowNumbers.has(row.rowNumber));
+
+    const { inserted, errors: insertErrors } =
+      insertData.length > 0
+        ? await copyRows(insertData, 1)
+        : { inserted: 0, errors: [] as RowError[] };
+    const errors = [...rejected, ...insertErrors].sort((a, b) => a.rowNumber - b.rowNumber);
+
+    // Stored rows are no longer rejected
+    const failedRowNumbers = new Set(errors.map((rowError) => rowError.rowNumber));
+    const stored = candidates
+      .map((row) => row.rowNumber)
+      .filter((rowNumber) => !failedRowNumbers.has(rowNumber));
+    if (stored.length > 0) {
+      await tx
+        .delete(rejectedRows)
+        .where(and(eq(rejectedRows.batchId, batch.id), inArray(rejectedRows.rowNumber, stored)));
+    }
+    await upsertRejections(tx, batch.id, errors);
+
+    const insertedRows = current.insertedRows + inserted;
+    const status = resolveBatchStatus(current.expectedRows, insertedRows);
+    const [updated] = await tx
+      .update(batches)
+      .set({
+        insertedRows,
+        status,
+        // Stored rows are merged again; a merge already pending stays pending
+        mergePending: inserted > 0 ? mergePendingFor(status) : undefined,
+      })
+      .where(eq(batches.id, batch.id))
+      .returning();
+
+    return { batch: updated, replayed: candidates.length, inserted, errors };
+  }).catch((error: unknown) => {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw databaseError("Failed to replay rejected rows", error);
+  });
+
+  rowsInsertedTotal.inc({ type: "replay" }, outcome.inserted);
+  rowsRejectedTotal.inc({ type: "replay" }, outcome.errors.length);
+  logger.info("Replayed rejected rows", {
+    batchId: batch.id,
+    replayed: outcome.replayed,
+    inserted: outcome.inserted,
+    errorCount: outcome.errors.length,
+    status: outcome.batch.status,
+  });
+
+  const currentRecords = await syncCurrentRecords(outcome.batch);
+
+  return { ...outcome, currentRecords };
+}
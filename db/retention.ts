@@ -0,0 +1,237 @@
+// Retention policies: purging old and soft-deleted batches, failing abandoned uploads and
+// retrying failed current_records merges, on a schedule
+import { and, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "./client";
+import { batches, sheetData } from "./schema";
+import { retryPendingMerges } from "./currentRecords";
+import { getErrorMessage, databaseError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { config } from "../utils/config";
+
+// Server-wide rules, used for sources that do not set their own (null: no limit)
+const RETENTION_KEEP_BATCHES = config.retentionKeepBatches;
+const RETENTION_MAX_AGE_DAYS = config.retentionMaxAgeDays;
+// Days a soft-deleted batch can still be restored before it is purged
+const DELETED_BATCH_RETENTION_DAYS = config.deletedBatchRetentionDays;
+// Minutes between retention runs; 0 disables the job
+const RETENTION_INTERVAL_MINUTES = config.retentionIntervalMinutes;
+// Hours after which a batch still pending is taken to be abandoned by a server that stopped
+const STALE_BATCH_HOURS = config.staleBatchHours;
+
+// The retention run in progress, if any
+let retentionRun: Promise<void> | null = null;
+let retentionTimer: NodeJS.Timeout | null = null;
+// Set on shutdown: no further batches are purged
+let stopped = false;
+
+/**
+ * Why a batch is purged
+ * - deleted: Soft-deleted longer than DELETED_BATCH_RETENTION_DAYS ago
+ * - count: Older than the last retainBatches complete or partial batches of its source
+ * - age: Started more than retainDays ago
+ */
+export const PURGE_REASONS = ["deleted", "count", "age"] as const;
+
+export type PurgeReason = (typeof PURGE_REASONS)[number];
+
+/**
+ * A batch removed by the retention job
+ */
+export interface PurgedBatch {
+  batchId: number;
+  datasetId: number;
+  batchNumber: number;
+  spreadsheetId: string | null;
+  sheetName: string | null;
+  reason: PurgeReason;
+}
+
+/**
+ * Find the batches that retention rules say should be purged
+ * A source is a dataset, spreadsheet and sheet; its rules come from the sources table
+ * (retain_batches, retain_days), falling back to the server defaults. Upload sessions that
+ * are still open and uploads still being written are never purged, and failed or aborted
+ * batches do not count towards the number of batches kept.
+ */
+async function findExpiredBatches(): Promise<PurgedBatch[]> {
+  const result = await db.execute(
+    sql`WITH ranked AS (
+        SELECT b.id, b.dataset_id, b.batch_number, b.spreadsheet_id, b.sheet_name, b.status,
+          b.started_at, b.deleted_at,
+          count(*) FILTER (WHERE b.deleted_at IS NULL AND b.status IN ('complete', 'partial'))
+          OVER (
+            PARTITION BY b.dataset_id, b.spreadsheet_id, b.sheet_name
+            ORDER BY b.id DESC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+          ) AS position,
+          coalesce(s.retain_batches, ${RETENTION_KEEP_BATCHES}::int, 0) AS keep_batches,
+          coalesce(s.retain_days, ${RETENTION_MAX_AGE_DAYS}::int, 0) AS keep_days
+        FROM batches b
+        LEFT JOIN sources s ON s.spreadsheet_id = b.spreadsheet_id
+        WHERE b.status NOT IN ('pending', 'open')
+      )
+      SELECT id, dataset_id, batch_number, spreadsheet_id, sheet_name,
+        CASE
+          WHEN deleted_at IS NOT NULL THEN 'deleted'
+          WHEN keep_batches > 0 AND status IN ('complete', 'partial') AND position > keep_batches
+            THEN 'count'
+          ELSE 'age'
+        END AS reason
+      FROM ranked
+      WHERE (deleted_at IS NOT NULL AND deleted_at < CURRENT_TIMESTAMP
+          - make_interval(days => ${DELETED_BATCH_RETENTION_DAYS}::int))
+        OR (deleted_at IS NULL AND keep_batches > 0 AND status IN ('complete', 'partial')
+          AND position > keep_batches)
+        OR (deleted_at IS NULL AND keep_days > 0
+          AND started_at < CURRENT_TIMESTAMP - make_interval(days => keep_days))
+      ORDER BY id`
+  );
+
+  return result.rows.map((row) => ({
+    batchId: Number(row.id),
+    datasetId: Number(row.dataset_id),
+    batchNumber: Number(row.batch_number),
+    spreadsheetId: (row.spreadsheet_id as string | null) ?? null,
+    sheetName: (row.sheet_name as string | null) ?? null,
+    reason: row.reason as PurgeReason,
+  }));
+}
+
+/**
+ * Delete a batch for good; its rows and upload chunks go with it (ON DELETE CASCADE)
+ * A batch found because it was soft-deleted is only removed if it is still deleted, so a
+ * restore that lands during the run wins.
+ * @returns Promise<boolean> - false when the batch was already gone or has been restored
+ */
+async function purgeBatch(batch: PurgedBatch): Promise<boolean> {
+  const purged = await db
+    .delete(batches)
+    .where(
+      batch.reason === "deleted"
+        ? and(eq(batches.id, batch.batchId), isNotNull(batches.deletedAt))
+        : eq(batches.id, batch.batchId)
+    )
+    .returning({ id: batches.id });
+
+  return purged.length > 0;
+}
+
+/**
+ * Fail batches left pending by a server that stopped while storing them
+ * Their rows are deleted, as for an upload that fails part way: they were never confirmed to
+ * the client, and a streamed upload's signature may not have been checked. Batches written
+ * by an async job are left to the job worker, which fails them once the job stops sending
+ * heartbeats.
+ * @returns Promise<number[]> - IDs of the batches marked failed
+ */
+async function failStaleBatches(): Promise<number[]> {
+  return db.transaction(async (tx) => {
+    const stale = await tx.execute(
+      sql`UPDATE batches b
+        SET status = 'failed', inserted_rows = 0, finished_at = CURRENT_TIMESTAMP
+        WHERE b.status = 'pending'
+          AND b.started_at < CURRENT_TIMESTAMP - make_interval(hours => ${STALE_BATCH_HOURS}::int)
+          AND NOT EXISTS (
+            SELECT 1 FROM ingest_jobs j
+            WHERE j.batch_id = b.id AND j.status IN ('queued', 'running')
+          )
+        RETURNING b.id`
+    );
+    const ids = stale.rows.map((row) => Number(row.id));
+
+    if (ids.length > 0) {
+      await tx.delete(sheetData).where(inArray(sheetData.batchId, ids));
+    }
+    return ids;
+  });
+}
+
+/**
+ * Apply the retention rules once: fail abandoned uploads, retry failed current_records
+ * merges, then purge every expired batch and log each one
+ * Batches are deleted one at a time, so a large purge never holds one long transaction.
+ * @returns Promise<PurgedBatch[]> - The batches that were purged
+ * @throws AppError (500) when stale batches cannot be failed, or batches pending a merge or
+ *   expired batches looked up
+ */
+export async function enforceRetention(): Promise<PurgedBatch[]> {
+  const failed = await failStaleBatches().catch((error: unknown) => {
+    throw databaseError("Failed to fail stale pending batches", error);
+  });
+  for (const batchId of failed) {
+    logger.warn("Pending batch abandoned, marked failed", { batchId });
+  }
+
+  const merged = await retryPendingMerges();
+  if (merged > 0) {
+    logger.info("Retried current records merges", { merged });
+  }
+
+  const expired = await findExpiredBatches().catch((error: unknown) => {
+    throw databaseError("Failed to find expired batches", error);
+  });
+
+  const purged: PurgedBatch[] = [];
+  for (const batch of expired) {
+    if (stopped) {
+      break;
+    }
+    try {
+      if (await purgeBatch(batch)) {
+        purged.push(batch);
+        logger.info("Retention purged batch", { ...batch });
+      }
+    } catch (error: unknown) {
+      logger.error("Retention failed to purge batch", {
+        batchId: batch.batchId,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * Run enforceRetention every RETENTION_INTERVAL_MINUTES, in this process
+ * Runs never overlap, and the timer does not keep the process alive on its own.
+ * @returns NodeJS.Timeout | null - The timer, or null when the job is disabled
+ */
+export function startRetentionSchedule(): NodeJS.Timeout | null {
+  if (!(RETENTION_INTERVAL_MINUTES > 0)) {
+    logger.info("Retention job disabled");
+    return null;
+  }
+
+  retentionTimer = setInterval(() => {
+    if (retentionRun || stopped) {
+      return;
+    }
+
+    retentionRun = enforceRetention()
+      .then((purged) => {
+        logger.info("Retention run finished", { purged: purged.length });
+      })
+      .catch((error: unknown) => {
+        logger.error("Retention run failed", { error: getErrorMessage(error) });
+      })
+      .finally(() => {
+        retentionRun = null;
+      });
+  }, RETENTION_INTERVAL_MINUTES * 60 * 1000);
+
+  retentionTimer.unref();
+  logger.info("Retention job scheduled", { intervalMinutes: RETENTION_INTERVAL_MINUTES });
+  return retentionTimer;
+}
+
+/**
+ * Stop the schedule, and wait for the batch being purged (if any) to finish
+ * Expired batches left over are purged by the next run, in whichever process.
+ */
+export async function stopRetentionSchedule(): Promise<void> {
+  stopped = true;
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+  }
+  await retentionRun;
+}
@@ -0,0 +1,401 @@
+// Row insertion helpers for sheet_data
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { PoolClient } from "pg";
+import { from as copyFrom } from "pg-copy-streams";
+import { TransactionRollbackError } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { db, pool, type Transaction } from "./client";
+import * as schema from "./schema";
+import { sheetData } from "./schema";
+import type { InsertProgress, SheetDataRow, RowError } from "../types";
+import { AppError, getErrorMessage, databaseError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { insertDurationSeconds } from "../utils/metrics";
+import { config } from "../utils/config";
+
+// Rows per COPY statement; COPY has no parameter limit, so its chunks can be far larger
+const COPY_CHUNK_SIZE = config.copyChunkSize;
+// Rows encoded per write to a COPY stream
+const COPY_ROWS_PER_WRITE = 500;
+
+/**
+ * Row prepared for insertion into sheet_data
+ */
+export type SheetDataInsert = { batchId: number; rowNumber: number; data: SheetDataRow };
+
+/**
+ * Function that inserts a set of prepared rows in one statement
+ */
+export type InsertRows = (rows: SheetDataInsert[]) => Promise<unknown>;
+
+/**
+ * Called after each chunk of an insert, with the rows stored so far
+ */
+export type OnInsertProgress = (progress: InsertProgress) => void;
+
+/**
+ * Function that writes prepared rows with COPY, bisecting failing chunks
+ */
+export type CopyRows = (
+  insertData: SheetDataInsert[],
+  firstRowNumber: number,
+  onProgress?: OnInsertProgress
+) => Promise<{ inserted: number; errors: RowError[] }>;
+
+/**
+ * Record the duration of every statement of an insert function, by method and outcome
+ */
+function timeInserts(method: "copy" | "insert", insertRows: InsertRows): InsertRows {
+  return (rows) => {
+    const stopTimer = insertDurationSeconds.startTimer();
+    return insertRows(rows).then(
+      (result) => {
+        stopTimer({ method, outcome: "ok" });
+        return result;
+      },
+      (error: unknown) => {
+        stopTimer({ method, outcome: "failed" });
+        throw error;
+      }
+    );
+  };
+}
+
+/**
+ * Default insert: each statement commits on its own
+ */
+const insertDirect: InsertRows = timeInserts("insert", (rows) =>
+  db.insert(sheetData).values(rows)
+);
+
+/**
+ * COPY text-format lines for prepared rows, a few hundred rows per string
+ * JSON.stringify output has no tabs or newlines, so only backslashes need escaping
+ */
+function* copyLines(rows: SheetDataInsert[]): Generator<string> {
+  for (let start = 0; start < rows.length; start += COPY_ROWS_PER_WRITE) {
+    yield rows
+      .slice(start, start + COPY_ROWS_PER_WRITE)
+      .map((row) => {
+        const data = JSON.stringify(row.data).replace(/\\/g, "\\\\");
+        return `${row.batchId}\t${row.rowNumber}\t${data}\n`;
+      })
+      .join("");
+  }
+}
+
+/**
+ * Insert with COPY ... FROM STDIN on a connection checked out of the pool
+ * Inside a transaction each COPY runs under a savepoint, so a failing one is rolled back
+ * on its own and the transaction stays usable
+ * @param client - The connection
+ * @param inTransaction - Whether the connection has a transaction open
+ * @returns InsertRows
+ */
+export function insertWithCopy(client: PoolClient, inTransaction = false): InsertRows {
+  const copy = (rows: SheetDataInsert[]): Promise<void> =>
+    pipeline(
+      Readable.from(copyLines(rows)),
+      client.query(copyFrom("COPY sheet_data (batch_id, row_number, data) FROM STDIN"))
+    );
+
+  if (!inTransaction) {
+    return timeInserts("copy", copy);
+  }
+
+  return timeInserts("copy", async (rows) => {
+    await client.query("SAVEPOINT copy_rows");
+    try {
+      await copy(rows);
+    } catch (error: unknown) {
+      await client.query("ROLLBACK TO SAVEPOINT copy_rows");
+      throw error;
+    }
+    await client.query("RELEASE SAVEPOINT copy_rows");
+  });
+}
+
+/**
+ * Insert a set of rows, splitting it in halves when it fails until each failing row is
+ * isolated and reported with the error of its own insert
+ * A chunk with a few bad rows costs a few dozen statements rather than one per row.
+ * @returns Promise<number> - Number of rows inserted
+ */
+async function insertOrSplit(
+  rows: SheetDataInsert[],
+  firstRowNumber: number,
+  insertRows: InsertRows,
+  errors: RowError[]
+): Promise<number> {
+  const failure = await insertRows(rows).then(
+    () => null,
+    (error: unknown) => ({ error })
+  );
+
+  if (!failure) {
+    return rows.length;
+  }
+
+  if (rows.length === 1) {
+    errors.push({
+      rowIndex: rows[0].rowNumber - firstRowNumber,
+      rowNumber: rows[0].rowNumber,
+      rowData: rows[0].data,
+      error: getErrorMessage(failure.error),
+    });
+    return 0;
+  }
+
+  return insertHalves(rows, firstRowNumber, insertRows, errors);
+}
+
+/**
+ * Insert the two halves of a set of rows that failed as a whole
+ * @returns Promise<number> - Number of rows inserted
+ */
+async function insertHalves(
+  rows: SheetDataInsert[],
+  firstRowNumber: number,
+  insertRows: InsertRows,
+  errors: RowError[]
+): Promise<number> {
+  const middle = Math.ceil(rows.length / 2);
+  const first = await insertOrSplit(rows.slice(0, middle), firstRowNumber, insertRows, errors);
+  const second = await insertOrSplit(rows.slice(middle), firstRowNumber, insertRows, errors);
+  return first + second;
+}
+
+/**
+ * Insert rows in chunks to avoid stack overflow with large datasets
+ * A failing chunk is bisected to find its failing rows
+ * @param insertData - Array of data to insert
+ * @param firstRowNumber - Row number reported as rowIndex 0 in errors
+ * @param insertRows - Function performing each insert statement
+ * @param chunkSize - Number of rows to insert per chunk (default: 5000)
+ * @param onProgress - Called after each chunk
+ * @returns Promise<{inserted: number, errors: RowError[]}>
+ */
+async function insertRowsInChunks(
+  insertData: SheetDataInsert[],
+  firstRowNumber: number,
+  insertRows: InsertRows,
+  chunkSize: number = 5000,
+  onProgress?: OnInsertProgress
+): Promise<{ inserted: number; errors: RowError[] }> {
+  let insertedCount = 0;
+  const errors: RowError[] = [];
+  const totalChunks = Math.ceil(insertData.length / chunkSize);
+
+  const batchId = insertData[0]?.batchId;
+  logger.info("Inserting rows in chunks", {
+    batchId,
+    totalRows: insertData.length,
+    totalChunks,
+    chunkSize,
+  });
+
+  for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
+    const start = chunkIndex * chunkSize;
+    const end = Math.min(start + chunkSize, insertData.length);
+    const chunk = insertData.slice(start, end);
+    const chunkNumber = chunkIndex + 1;
+
+    // Try to insert the chunk
+    const chunkResult = await insertRows(chunk).then(
+      () => true,
+      (chunkError: unknown) => {
+        logger.warn("Chunk insert failed, locating failing rows", {
+          batchId,
+          chunk: chunkNumber,
+          totalChunks,
+          error: getErrorMessage(chunkError),
+        });
+        return false;
+      }
+    );
+
+    if (chunkResult) {
+      // Chunk insert succeeded
+      insertedCount += chunk.length;
+      if (chunkNumber % 10 === 0 || chunkNumber === totalChunks) {
+        logger.info("Insert progress", {
+          batchId,
+          chunk: chunkNumber,
+          totalChunks,
+          inserted: insertedCount,
+          totalRows: insertData.length,
+        });
+      }
+    } else {
+      // Chunk insert failed, bisect it to store every row but the failing ones
+      insertedCount += await insertHalves(chunk, firstRowNumber, insertRows, errors);
+    }
+
+    onProgress?.({ inserted: insertedCount, chunk: chunkNumber, totalChunks });
+  }
+
+  return { inserted: insertedCount, errors };
+}
+
+/**
+ * Insert prepared rows, trying a single batch insert first for small datasets
+ * and falling back to chunked inserts for large or failing ones
+ * @param insertData - Array of data to insert
+ * @param firstRowNumber - Row number reported as rowIndex 0 in errors
+ * @param insertRows - Function performing each insert statement
+ * @param onProgress - Called after each chunk (once for a single batch insert)
+ * @returns Promise<{inserted: number, errors: RowError[]}>
+ */
+export async function insertBatchRows(
+  insertData: SheetDataInsert[],
+  firstRowNumber: number,
+  insertRows: InsertRows = insertDirect,
+  onProgress?: OnInsertProgress
+): Promise<{ inserted: number; errors: RowError[] }> {
+  const totalRows = insertData.length;
+
+  // For large datasets (>10000 rows), use chunked inserts to avoid stack overflow
+  const CHUNK_SIZE = config.insertChunkSize;
+  const useChunkedInserts = totalRows > 10000;
+
+  if (useChunkedInserts) {
+    logger.debug("Large dataset, using chunked inserts", { totalRows });
+    return insertRowsInChunks(insertData, firstRowNumber, insertRows, CHUNK_SIZE, onProgress);
+  }
+
+  // For smaller datasets, try single batch insert first
+  const batchInsertResult = await insertRows(insertData).then(
+    () => true,
+    (insertError: unknown) => {
+      logger.warn("Batch insert failed, attempting chunked inserts", {
+        batchId: insertData[0]?.batchId,
+        error: getErrorMessage(insertError),
+      });
+      return false;
+    }
+  );
+
+  if (batchInsertResult) {
+    onProgress?.({ inserted: totalRows, chunk: 1, totalChunks: 1 });
+    return { inserted: totalRows, errors: [] };
+  }
+
+  // Fallback to chunked inserts
+  return insertRowsInChunks(insertData, firstRowNumber, insertRows, CHUNK_SIZE, onProgress);
+}
+
+/**
+ * Run work on a connection of its own, as COPY needs one
+ * A connection whose work threw is discarded rather than returned to the pool, unless
+ * the error is one that leaves it usable.
+ */
+async function withConnection<T>(
+  work: (client: PoolClient) => Promise<T>,
+  leavesUsable: (error: unknown) => boolean = () => false
+): Promise<T> {
+  const client = await pool.connect().catch((error: unknown) => {
+    throw databaseError("Failed to open a connection for COPY", error);
+  });
+
+  try {
+    const result = await work(client);
+    client.release();
+    return result;
+  } catch (error: unknown) {
+    client.release(!leavesUsable(error));
+    throw error;
+  }
+}
+
+/**
+ * Insert prepared rows with COPY, in chunks that each commit on their own
+ * A failing chunk is bisected to find its failing rows; the others are still stored.
+ * @param insertData - Array of data to insert
+ * @param firstRowNumber - Row number reported as rowIndex 0 in errors
+ * @param onProgress - Called after each chunk
+ * @returns Promise<{inserted: number, errors: RowError[]}>
+ */
+export async function copyBatchRows(
+  insertData: SheetDataInsert[],
+  firstRowNumber: number,
+  onProgress?: OnInsertProgress
+): Promise<{ inserted: number; errors: RowError[] }> {
+  return withConnection((client) =>
+    insertRowsInChunks(
+      insertData,
+      firstRowNumber,
+      insertWithCopy(client),
+      COPY_CHUNK_SIZE,
+      onProgress
+    )
+  );
+}
+
+/**
+ * Insert prepared rows with COPY in a single transaction that is rolled back if any row fails
+ * Every COPY runs under a savepoint, so all failing rows can still be reported
+ * @param insertData - Array of data to insert
+ * @param firstRowNumber - Row number reported as rowIndex 0 in errors
+ * @param onProgress - Called after each chunk (the rows only become visible on commit)
+ * @returns Promise<{inserted: number, errors: RowError[]}> - inserted is 0 whenever errors is non-empty
+ */
+export async function copyBatchRowsAtomically(
+  insertData: SheetDataInsert[],
+  firstRowNumber: number,
+  onProgress?: OnInsertProgress
+): Promise<{ inserted: number; errors: RowError[] }> {
+  const { errors } = await withConnection(async (client) => {
+    await client.query("BEGIN");
+    try {
+      const result = await insertRowsInChunks(
+        insertData,
+        firstRowNumber,
+        insertWithCopy(client, true),
+        COPY_CHUNK_SIZE,
+        onProgress
+      );
+      await client.query(result.errors.length > 0 ? "ROLLBACK" : "COMMIT");
+      return result;
+    } catch (error: unknown) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw error;
+    }
+  });
+
+  if (errors.length > 0) {
+    logger.warn("Atomic upload rolled back", {
+      batchId: insertData[0]?.batchId,
+      failedRows: errors.length,
+      totalRows: insertData.length,
+    });
+    return { inserted: 0, errors };
+  }
+
+  return { inserted: insertData.length, errors: [] };
+}
+
+/**
+ * Run a transaction on a connection of its own, whose rows can be written with COPY
+ * copyRows writes inside the transaction, each COPY under a savepoint, so failing rows are
+ * reported and the transaction stays usable. Rolling back (tx.rollback() or a thrown
+ * error) discards every row written.
+ * @param work - The transaction's statements
+ * @returns Promise<T> - What work returned
+ */
+export async function copyTransaction<T>(
+  work: (tx: Transaction, copyRows: CopyRows) => Promise<T>
+): Promise<T> {
+  return withConnection(
+    (client) => {
+      const insertRows = insertWithCopy(client, true);
+      const copyRows: CopyRows = (insertData, firstRowNumber, onProgress) =>
+        insertRowsInChunks(insertData, firstRowNumber, insertRows, COPY_CHUNK_SIZE, onProgress);
+
+      // Drizzle runs a transaction on the connection it is given, rather than a pooled one
+      return drizzle(client, { schema }).transaction((tx) => work(tx, copyRows));
+    },
+    // Either error reaches here only once Drizzle's ROLLBACK has succeeded
+    (error) => error instanceof TransactionRollbackError || error instanceof AppError
+  );
+}
@@ -1,10 +1,101 @@
 // Drizzle ORM schema definitions
-import { pgTable, serial, integer, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  serial,
+  integer,
+  jsonb,
+  text,
+  timestamp,
+  unique,
+  index,
+  primaryKey,
+  boolean,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import type { InferSelectModel, InferInsertModel } from "drizzle-orm";
+import { DATE_ORDERS } from "../utils/coercion";
+
+/**
+ * Lifecycle states of an upload batch
+ * - pending: rows are still being inserted
+ * - complete: every expected row was inserted
+ * - partial: some rows failed to insert
+ * - failed: no rows could be inserted
+ * - open: upload session accepting chunks, not yet committed
+ * - aborted: upload session abandoned before commit
+ */
+export const BATCH_STATUSES = [
+  "pending",
+  "complete",
+  "partial",
+  "failed",
+  "open",
+  "aborted",
+] as const;
+
+/**
+ * Named datasets; each has its own batch numbering and listing
+ * - slug: URL-safe name such as "crm-leads"
+ * - next_batch_number: Next per-dataset batch number to hand out
+ * - row_schema: Optional column spec or JSON Schema that incoming rows are validated against
+ * - strict_schema: Reject a whole upload when a required column is missing from it
+ */
+export const datasets = pgTable("datasets", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  description: text("description"),
+  nextBatchNumber: integer("next_batch_number").notNull().default(1),
+  rowSchema: jsonb("row_schema"),
+  strictSchema: boolean("strict_schema").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Schema for upload batches
+ * - id: Allocated from a sequence, so concurrent uploads never collide
+ * - dataset_id / batch_number: Dataset the batch belongs to and its number within it
+ * - status: One of BATCH_STATUSES
+ * - expected_rows / inserted_rows: Row counts requested vs actually stored
+ * - started_at / finished_at: When the upload began and reached a final status
+ * - spreadsheet_id / sheet_name / uploaded_by / tags: Optional source metadata sent with the upload
+ * - content_hash: Stable hash of the uploaded rows, used to skip unchanged re-uploads
+ * - columns: Column names in sheet order (JSONB does not keep key order); null for older batches
+ * - deleted_at: Set when the batch is soft-deleted; its rows are purged by the retention job
+ * - api_key_id: API key that opened the upload session; only it (or an admin key) can use the session
+ */
+export const batches = pgTable(
+  "batches",
+  {
+    id: serial("id").primaryKey(),
+    datasetId: integer("dataset_id")
+      .notNull()
+      .references(() => datasets.id),
+    batchNumber: integer("batch_number").notNull(),
+    status: text("status", { enum: BATCH_STATUSES }).notNull().default("pending"),
+    expectedRows: integer("expected_rows").notNull(),
+    insertedRows: integer("inserted_rows").notNull().default(0),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+    spreadsheetId: text("spreadsheet_id"),
+    sheetName: text("sheet_name"),
+    uploadedBy: text("uploaded_by"),
+    tags: text("tags").array().notNull().default(sql`'{}'`),
+    contentHash: text("content_hash"),
+    columns: text("columns").array(),
+    deletedAt: timestamp("deleted_at"),
+    apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }),
+    mergePending: boolean("merge_pending").notNull().default(false),
+  },
+  (table) => ({
+    uniqueDatasetBatch: unique("unique_dataset_batch").on(table.datasetId, table.batchNumber),
+    sourceIdx: index("idx_batches_source").on(table.spreadsheetId, table.sheetName),
+    startedAtIdx: index("idx_batches_started_at").on(table.startedAt),
+  })
+);
 
 /**
  * Schema for storing Google Sheets data
- * - batch_id: Groups all rows from a single upload
+ * - batch_id: Groups all rows from a single upload (references batches.id)
  * - row_number: Sequential number for sorting (1-indexed)
  * - data: JSONB column storing flexible row data
  */
@@ -12,16 +103,327 @@ export const sheetData = pgTable(
   "sheet_data",
   {
     id: serial("id").primaryKey(),
-    batchId: integer("batch_id").notNull(),
+    batchId: integer("batch_id")
+      .notNull()
+      .references(() => batches.id, { onDelete: "cascade" }),
     rowNumber: integer("row_number").notNull(),
     data: jsonb("data").notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => ({
-    uniqueBatchRow: unique().on(table.batchId, table.rowNumber),
+    uniqueBatchRow: unique("unique_batch_row").on(table.batchId, table.rowNumber),
+    batchIdx: index("idx_sheet_data_batch_id").on(table.batchId),
+    rowNumberIdx: index("idx_sheet_data_row_number").on(table.batchId, table.rowNumber),
+  })
+);
+
+/**
+ * Rows of best-effort uploads that failed validation or insert, kept so they can be replayed
+ * - row_number: Position the row would have had in sheet_data
+ * - row_data: The row as it was last attempted, as JSON text: rows often fail because JSONB
+ *   cannot hold them (strings containing \u0000), and text can
+ * - error / field_errors: Why it last failed (field_errors for row schema violations)
+ * - attempts: Number of times the row has failed
+ */
+export const rejectedRows = pgTable(
+  "rejected_rows",
+  {
+    id: serial("id").primaryKey(),
+    batchId: integer("batch_id")
+      .notNull()
+      .references(() => batches.id, { onDelete: "cascade" }),
+    rowNumber: integer("row_number").notNull(),
+    rowData: text("row_data").notNull(),
+    error: text("error").notNull(),
+    fieldErrors: jsonb("field_errors"),
+    attempts: integer("attempts").notNull().default(1),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueBatchRow: unique("unique_rejected_row").on(table.batchId, table.rowNumber),
   })
 );
 
+/**
+ * Chunks received by a multi-request upload session
+ * - chunk_number: 1-based position of the chunk in the session
+ * - first_row_number / row_count: Range of row_number values the chunk occupies
+ * - content_hash: Hash of the chunk's rows, used to recognise a re-sent chunk
+ */
+export const uploadChunks = pgTable(
+  "upload_chunks",
+  {
+    batchId: integer("batch_id")
+      .notNull()
+      .references(() => batches.id, { onDelete: "cascade" }),
+    chunkNumber: integer("chunk_number").notNull(),
+    firstRowNumber: integer("first_row_number").notNull(),
+    rowCount: integer("row_count").notNull(),
+    contentHash: text("content_hash").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.batchId, table.chunkNumber] }),
+  })
+);
+
+/**
+ * Idempotency keys seen on upload requests
+ * - key: Value of the Idempotency-Key header
+ * - request_hash: Hash of the request body, to detect a key reused with another payload
+ * - status_code / response: The stored response, null while the first request is still running
+ * - batch_id: Batch created by the first request, if any
+ * - locked_until: Lease of the request running under the key, renewed while it runs; a retry
+ *   takes over a key whose lease ran out before a response was stored
+ * - claim_token: Random token of the request holding the key; only that request can renew,
+ *   complete or release it
+ */
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  key: text("key").primaryKey(),
+  requestHash: text("request_hash").notNull(),
+  statusCode: integer("status_code"),
+  response: jsonb("response"),
+  batchId: integer("batch_id").references(() => batches.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  lockedUntil: timestamp("locked_until").defaultNow().notNull(),
+  claimToken: text("claim_token"),
+});
+
+/**
+ * How an upload handles rows that fail to insert
+ * - best_effort: store every row that can be stored and report the rest
+ * - atomic: store all rows in one transaction, or none of them
+ */
+export const UPLOAD_MODES = ["best_effort", "atomic"] as const;
+
+/**
+ * Per-source upload settings, keyed by spreadsheet ID
+ * - upload_mode: Default UPLOAD_MODES value for uploads from this spreadsheet
+ * - dedupe: Skip uploads whose rows match the latest batch from the same sheet
+ * - column_types: Type hint per column (COLUMN_TYPE_HINTS), applied to rows before storage
+ * - timezone: IANA timezone of the sheet, for dates and times without an offset (UTC if null)
+ * - date_order: Day/month order of display dates (DATE_ORDERS)
+ * - key_column: Data field identifying a record; when set, every upload is merged into
+ *   current_records
+ * - delete_missing: Soft-delete current records whose key is missing from a complete upload
+ * - retain_batches / retain_days: Retention rules for the spreadsheet's batches; null uses the
+ *   server default and 0 keeps every batch
+ */
+export const sources = pgTable("sources", {
+  spreadsheetId: text("spreadsheet_id").primaryKey(),
+  uploadMode: text("upload_mode", { enum: UPLOAD_MODES }).notNull().default("best_effort"),
+  dedupe: boolean("dedupe").notNull().default(false),
+  columnTypes: jsonb("column_types"),
+  timezone: text("timezone"),
+  dateOrder: text("date_order", { enum: DATE_ORDERS }).notNull().default("mdy"),
+  keyColumn: text("key_column"),
+  deleteMissing: boolean("delete_missing").notNull().default(false),
+  retainBatches: integer("retain_batches"),
+  retainDays: integer("retain_days"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Latest version of each record of a source, merged from its uploads
+ * A record is one key_column value within a dataset, spreadsheet and sheet
+ * - sheet_name: '' for uploads without a sheet name
+ * - batch_id: Batch that last inserted, changed or deleted the record
+ * - seen_batch_id: Latest batch the record was merged from; an older batch finishing late
+ *   never overwrites a newer one
+ * - deleted_at: Set when the key was missing from a complete upload (delete_missing)
+ */
+export const currentRecords = pgTable(
+  "current_records",
+  {
+    id: serial("id").primaryKey(),
+    datasetId: integer("dataset_id")
+      .notNull()
+      .references(() => datasets.id),
+    spreadsheetId: text("spreadsheet_id").notNull(),
+    sheetName: text("sheet_name").notNull().default(""),
+    recordKey: text("record_key").notNull(),
+    data: jsonb("data").notNull(),
+    batchId: integer("batch_id").references(() => batches.id, { onDelete: "set null" }),
+    seenBatchId: integer("seen_batch_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    deletedAt: timestamp("deleted_at"),
+  },
+  (table) => ({
+    uniqueRecord: unique("unique_current_record").on(
+      table.datasetId,
+      table.spreadsheetId,
+      table.sheetName,
+      table.recordKey
+    ),
+    batchIdx: index("idx_current_records_batch_id").on(table.batchId),
+  })
+);
+
+/**
+ * Permissions an API key can carry
+ * - upload: send data (single uploads and upload sessions)
+ * - read: fetch and list batches
+ * - admin: everything, including managing API keys and source settings
+ */
+export const API_KEY_SCOPES = ["upload", "read", "admin"] as const;
+
+/**
+ * Per-client API keys
+ * - key_hash: SHA-256 of the key; the key itself is only shown once, at creation
+ * - key_prefix: First characters of the key, to tell keys apart in listings
+ * - scopes: API_KEY_SCOPES granted to the key
+ * - require_signature: Reject requests without a valid HMAC signature
+ * - signing_secret: Key of the HMAC request signatures; unlike the API key it is never sent
+ *   with a request (null for keys created before signing secrets, until one is issued)
+ * - revoked_at: Set when the key is revoked; revoked keys are rejected
+ */
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes", { enum: API_KEY_SCOPES }).array().notNull(),
+  requireSignature: boolean("require_signature").notNull().default(false),
+  signingSecret: text("signing_secret"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+/**
+ * Registered webhook endpoints, called when a batch completes
+ * - secret: Key the deliveries are signed with (HMAC-SHA256, as for signed API requests)
+ * - dataset_id / spreadsheet_id: Optional filters; null matches every dataset or source
+ * - disabled_at: Set when the webhook is removed; nothing more is delivered to it
+ */
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  datasetId: integer("dataset_id").references(() => datasets.id),
+  spreadsheetId: text("spreadsheet_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  disabledAt: timestamp("disabled_at"),
+});
+
+/**
+ * States of a webhook delivery
+ * - pending: waiting for its first or next attempt
+ * - delivered: the endpoint answered with a 2xx status
+ * - failed: every attempt failed, or the webhook was removed
+ */
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+/**
+ * Outbox and delivery log of webhook calls
+ * - event / payload: Event name and the JSON body that is sent
+ * - attempts / next_attempt_at: Attempts made so far and when the next one is due
+ * - response_status / last_error: Outcome of the latest attempt
+ */
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    webhookId: integer("webhook_id")
+      .notNull()
+      .references(() => webhooks.id, { onDelete: "cascade" }),
+    batchId: integer("batch_id").references(() => batches.id, { onDelete: "set null" }),
+    event: text("event").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: text("status", { enum: WEBHOOK_DELIVERY_STATUSES }).notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    deliveredAt: timestamp("delivered_at"),
+  },
+  (table) => ({
+    webhookIdx: index("idx_webhook_deliveries_webhook_id").on(table.webhookId, table.id),
+    dueIdx: index("idx_webhook_deliveries_due")
+      .on(table.nextAttemptAt)
+      .where(sql`status = 'pending'`),
+  })
+);
+
+/**
+ * States of an asynchronous ingestion job
+ * - queued: waiting for the worker
+ * - running: the worker is storing its rows
+ * - complete: the rows were stored (some may have failed; see the job's errors)
+ * - failed: the upload was rejected or the worker gave up on it
+ */
+export const JOB_STATUSES = ["queued", "running", "complete", "failed"] as const;
+
+/**
+ * Queue of uploads made in async mode, and their progress
+ * - rows / options: The upload as received, cleared once the job has finished
+ * - inserted_rows / chunk / total_chunks: Progress of the insert, as it runs
+ * - errors / error_count: Row errors of the finished upload (errors is capped, error_count is not)
+ * - error: Why the job failed
+ * - heartbeat_at: Last sign of life from the worker running the job
+ * - api_key_id: API key that queued the job; only it (or a key with the read scope) sees the row errors
+ */
+export const ingestJobs = pgTable(
+  "ingest_jobs",
+  {
+    id: serial("id").primaryKey(),
+    status: text("status", { enum: JOB_STATUSES }).notNull().default("queued"),
+    datasetId: integer("dataset_id")
+      .notNull()
+      .references(() => datasets.id),
+    rows: jsonb("rows"),
+    options: jsonb("options"),
+    batchId: integer("batch_id").references(() => batches.id, { onDelete: "set null" }),
+    batchStatus: text("batch_status", { enum: BATCH_STATUSES }),
+    totalRows: integer("total_rows").notNull(),
+    insertedRows: integer("inserted_rows").notNull().default(0),
+    chunk: integer("chunk").notNull().default(0),
+    totalChunks: integer("total_chunks"),
+    errors: jsonb("errors"),
+    errorCount: integer("error_count").notNull().default(0),
+    error: text("error"),
+    heartbeatAt: timestamp("heartbeat_at"),
+    apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => ({
+    statusIdx: index("idx_ingest_jobs_status").on(table.status, table.id),
+  })
+);
+
+/**
+ * Type for selecting from datasets table
+ */
+export type Dataset = InferSelectModel<typeof datasets>;
+
+/**
+ * Type for inserting into datasets table
+ */
+export type NewDataset = InferInsertModel<typeof datasets>;
+
+/**
+ * Type for selecting from batches table
+ */
+export type Batch = InferSelectModel<typeof batches>;
+
+/**
+ * Type for inserting into batches table
+ */
+export type NewBatch = InferInsertModel<typeof batches>;
+
+/**
+ * Batch status values
+ */
+export type BatchStatus = Batch["status"];
+
 /**
  * Type for selecting from sheet_data table
  */
@@ -32,3 +434,77 @@ export type SheetData = InferSelectModel<typeof sheetData>;
  */
 export type NewSheetData = InferInsertModel<typeof sheetData>;
 
+/**
+ * Type for selecting from rejected_rows table
+ */
+export type RejectedRow = InferSelectModel<typeof rejectedRows>;
+
+/**
+ * Type for selecting from upload_chunks table
+ */
+export type UploadChunk = InferSelectModel<typeof uploadChunks>;
+
+/**
+ * Type for inserting into upload_chunks table
+ */
+export type NewUploadChunk = InferInsertModel<typeof uploadChunks>;
+
+/**
+ * Type for selecting from idempotency_keys table
+ */
+export type IdempotencyKey = InferSelectModel<typeof idempotencyKeys>;
+
+/**
+ * Type for selecting from sources table
+ */
+export type Source = InferSelectModel<typeof sources>;
+
+/**
+ * Type for inserting into sources table
+ */
+export type NewSource = InferInsertModel<typeof sources>;
+
+/**
+ * Type for selecting from current_records table
+ */
+export type CurrentRecord = InferSelectModel<typeof currentRecords>;
+
+/**
+ * Upload mode values
+ */
+export type UploadMode = Source["uploadMode"];
+
+/**
+ * Type for selecting from api_keys table
+ */
+export type ApiKey = InferSelectModel<typeof apiKeys>;
+
+/**
+ * API key scope values
+ */
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Type for selecting from webhooks table
+ */
+export type Webhook = InferSelectModel<typeof webhooks>;
+
+/**
+ * Type for selecting from webhook_deliveries table
+ */
+export type WebhookDelivery = InferSelectModel<typeof webhookDeliveries>;
+
+/**
+ * Status of a webhook delivery
+ */
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/**
+ * Type for selecting from ingest_jobs table
+ */
+export type IngestJob = InferSelectModel<typeof ingestJobs>;
+
+/**
+ * Status of an ingestion job
+ */
+export type JobStatus = (typeof JOB_STATUSES)[number];
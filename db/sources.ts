@@ -0,0 +1,154 @@
+// Per-source upload settings
+import { asc, eq } from "drizzle-orm";
+import { db } from "./client";
+import { sources, type Source, type UploadMode } from "./schema";
+import { databaseError } from "../utils/errors";
+import type { CoercionSettings, ColumnTypeHint, DateOrder } from "../utils/coercion";
+
+/**
+ * Settings that can be configured for a source
+ */
+export interface SourceSettings {
+  uploadMode?: UploadMode;
+  dedupe?: boolean;
+  columnTypes?: Record<string, ColumnTypeHint> | null;
+  timezone?: string | null;
+  dateOrder?: DateOrder;
+  keyColumn?: string | null;
+  deleteMissing?: boolean;
+  retainBatches?: number | null;
+  retainDays?: number | null;
+}
+
+/**
+ * Get the settings for one spreadsheet
+ * @param spreadsheetId - Spreadsheet ID the settings belong to
+ * @returns Promise<Source | null> - The settings, or null when none are configured
+ */
+export async function getSource(spreadsheetId: string): Promise<Source | null> {
+  const [source] = await db
+    .select()
+    .from(sources)
+    .where(eq(sources.spreadsheetId, spreadsheetId))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch source settings", error);
+    });
+
+  return source ?? null;
+}
+
+/**
+ * List the settings of every configured source
+ * @returns Promise<Source[]> - Sources ordered by spreadsheet ID
+ */
+export async function listSources(): Promise<Source[]> {
+  return db
+    .select()
+    .from(sources)
+    .orderBy(asc(sources.spreadsheetId))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list sources", error);
+    });
+}
+
+/**
+ * Create or update the settings for a spreadsheet
+ * @param spreadsheetId - Spreadsheet ID the settings belong to
+ * @param settings - Settings to store (omitted fields keep their current value)
+ * @returns Promise<Source> - The stored settings
+ */
+export async function upsertSource(
+  spreadsheetId: string,
+  settings: SourceSettings
+): Promise<Source> {
+  const [source] = await db
+    .insert(sources)
+    .values({ spreadsheetId, ...settings })
+    .onConflictDoUpdate({
+      target: sources.spreadsheetId,
+      set: { ...settings, updatedAt: new Date() },
+    })
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to save source settings", error);
+    });
+
+  return source;
+}
+
+/**
+ * Work out the upload mode for a request
+ * An explicit mode wins, then the source's configured mode, then best_effort
+ * @param requestedMode - Mode chosen on the request, if any
+ * @param spreadsheetId - Spreadsheet the upload came from, if known
+ * @returns Promise<UploadMode>
+ */
+export async function resolveUploadMode(
+  requestedMode?: UploadMode,
+  spreadsheetId?: string
+): Promise<UploadMode> {
+  if (requestedMode) {
+    return requestedMode;
+  }
+
+  if (!spreadsheetId) {
+    return "best_effort";
+  }
+
+  const source = await getSource(spreadsheetId);
+  return source?.uploadMode ?? "best_effort";
+}
+
+/**
+ * Work out whether unchanged uploads should be skipped
+ * An explicit request flag wins, then the source's configured setting, then false
+ * @param requested - Flag set on the request, if any
+ * @param spreadsheetId - Spreadsheet the upload came from, if known
+ * @returns Promise<boolean>
+ */
+export async function resolveDedupe(
+  requested?: boolean,
+  spreadsheetId?: string
+): Promise<boolean> {
+  if (requested !== undefined) {
+    return requested;
+  }
+
+  if (!spreadsheetId) {
+    return false;
+  }
+
+  const source = await getSource(spreadsheetId);
+  return source?.dedupe ?? false;
+}
+
+/**
+ * Work out how the rows of an upload are coerced
+ * @param spreadsheetId - Spreadsheet the upload came from, if known
+ * @returns Promise<CoercionSettings | null> - null when the source has no column type hints
+ */
+export async function resolveCoercion(spreadsheetId?: string): Promise<CoercionSettings | null> {
+  if (!spreadsheetId) {
+    return null;
+  }
+
+  return getSourceCoercion(await getSource(spreadsheetId));
+}
+
+/**
+ * Read the coercion settings of a source
+ * @param source - The source's settings, if any
+ * @returns CoercionSettings | null - null when the source has no column type hints
+ */
+export function getSourceCoercion(source: Source | null | undefined): CoercionSettings | null {
+  const columnTypes = source?.columnTypes as Record<string, ColumnTypeHint> | null | undefined;
+  if (!source || !columnTypes || Object.keys(columnTypes).length === 0) {
+    return null;
+  }
+
+  return {
+    columnTypes,
+    timezone: source.timezone ?? "UTC",
+    dateOrder: source.dateOrder,
+  };
+}
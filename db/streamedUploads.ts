@@ -0,0 +1,250 @@
+// Storage of streamed (CSV and NDJSON) uploads in bounded chunks
+import { eq, TransactionRollbackError } from "drizzle-orm";
+import { db } from "./client";
+import { rejectedRows, sheetData } from "./schema";
+import {
+  createBatch,
+  deleteBatch,
+  findDuplicateBatch,
+  finishBatch,
+  resolveBatchStatus,
+} from "./batches";
+import { getDataset, getDatasetRowSchema, DEFAULT_DATASET_SLUG } from "./datasets";
+import { syncCurrentRecords } from "./currentRecords";
+import { saveRejectedRows } from "./rejectedRows";
+import { resolveCoercion, resolveUploadMode } from "./sources";
+import { copyBatchRows, copyTransaction, type CopyRows } from "./rows";
+import type {
+  RowError,
+  StoreSheetDataResult,
+  StoreSheetStreamOptions,
+  StreamedRow,
+} from "../types";
+import { coerceRow } from "../utils/coercion";
+import { AppError, getErrorMessage } from "../utils/errors";
+import { createRowHasher } from "../utils/hash";
+import { collectColumns } from "../utils/rows";
+import { assertRequiredColumns, validateRows } from "../utils/rowSchema";
+import { logger } from "../utils/logger";
+import { recordUpload } from "../utils/metrics";
+
+/**
+ * Rows held in memory before they are written
+ */
+const STREAM_CHUNK_SIZE = 5000;
+
+/**
+ * Row errors kept for the response; further errors are only counted
+ */
+const MAX_REPORTED_ERRORS = 1000;
+
+/**
+ * Store an upload whose rows arrive as a stream
+ * Rows are validated and written STREAM_CHUNK_SIZE at a time, so memory use does not
+ * depend on the size of the upload. The row count, content hash and columns are
+ * recorded on the batch once the stream has ended.
+ * In atomic mode every chunk is written inside one transaction that is rolled back
+ * if any row fails. If reading the stream fails part way (malformed body, client
+ * disconnect, strict schema or signature failure), the rows written so far are
+ * deleted and the batch is marked failed.
+ * With dedupe, a stream matching the source's latest batch is deleted after the fact.
+ * The source's column type hints, current_records merge, webhooks and kept rejected rows
+ * apply as for storeSheetData.
+ * @param rows - Parsed rows, in upload order
+ * @param options - Dataset, source metadata, upload mode, dedupe and final verification
+ * @returns Promise<StoreSheetDataResult>
+ */
+export async function storeSheetDataStream(
+  rows: AsyncIterable<StreamedRow>,
+  options: StoreSheetStreamOptions = {}
+): Promise<StoreSheetDataResult> {
+  const dataset = options.dataset ?? (await getDataset(DEFAULT_DATASET_SLUG));
+  const source = options.source ?? {};
+  const mode = await resolveUploadMode(options.mode, source.spreadsheetId);
+  const rowSchema = getDatasetRowSchema(dataset);
+  const coercion = await resolveCoercion(source.spreadsheetId);
+
+  const batch = await createBatch({ datasetId: dataset.id, expectedRows: 0, source });
+  const batchId = batch.id;
+  logger.info("Allocated batch for a streamed upload", {
+    batchId,
+    dataset: dataset.slug,
+    batchNumber: batch.batchNumber,
+    mode,
+  });
+
+  const hasher = createRowHasher();
+  const errors: RowError[] = [];
+  let columns: string[] = [];
+  let totalRows = 0;
+  let inserted = 0;
+  let errorCount = 0;
+
+  const recordErrors = (rowErrors: RowError[]): void => {
+    errorCount += rowErrors.length;
+    errors.push(...rowErrors.slice(0, Math.max(MAX_REPORTED_ERRORS - errors.length, 0)));
+  };
+
+  // Validate and write one chunk of rows (rowIndex in errors counts from the start of the upload)
+  const writeChunk = async (chunk: StreamedRow[], copyRows: CopyRows): Promise<void> => {
+    const firstRowNumber = totalRows - chunk.length + 1;
+    const readable = chunk.filter((row) => !row.error);
+
+    const unreadable: RowError[] = [];
+    chunk.forEach((row, index) => {
+      if (row.error) {
+        unreadable.push({
+          rowIndex: firstRowNumber + index - 1,
+          rowNumber: firstRowNumber + index,
+          rowData: row.data,
+          error: row.error,
+        });
+      }
+    });
+
+    if (rowSchema && dataset.strictSchema) {
+      assertRequiredColumns(rowSchema, readable.map((row) => row.data));
+    }
+    const rejected = rowSchema
+      ? validateRows(rowSchema, chunk.map((row) => row.data), firstRowNumber)
+          .filter((rowError) => !chunk[rowError.rowIndex].error)
+          .map((rowError) => ({ ...rowError, rowIndex: rowError.rowNumber - 1 }))
+      : [];
+
+    const skipped = new Set([...unreadable, ...rejected].map((rowError) => rowError.rowNumber));
+    const insertData = chunk
+      .map((row, index) => ({ batchId, rowNumber: firstRowNumber + index, data: row.data }))
+      .filter((row) => !skipped.has(row.rowNumber));
+
+    const result =
+      insertData.length > 0
+        ? await copyRows(insertData, 1)
+        : { inserted: 0, errors: [] };
+
+    inserted += result.inserted;
+    const chunkErrors = [...unreadable, ...rejected, ...result.errors].sort(
+      (a, b) => a.rowNumber - b.rowNumber
+    );
+    recordErrors(chunkErrors);
+
+    // Every failed row is kept, not only those listed in the response
+    if (mode !== "atomic") {
+      await saveRejectedRows(batchId, chunkErrors);
+    }
+  };
+
+  // Read the stream, writing a chunk whenever enough rows have arrived
+  const readRows = async (copyRows: CopyRows): Promise<void> => {
+    let chunk: StreamedRow[] = [];
+
+    for await (const row of rows) {
+      totalRows++;
+      hasher.update(row.data);
+      if (!row.error) {
+        columns = collectColumns([row.data], columns);
+      }
+
+      chunk.push(coercion && !row.error ? { data: coerceRow(row.data, coercion) } : row);
+      if (chunk.length >= STREAM_CHUNK_SIZE) {
+        await writeChunk(chunk, copyRows);
+        chunk = [];
+      }
+    }
+
+    if (chunk.length > 0) {
+      await writeChunk(chunk, copyRows);
+    }
+
+    if (totalRows === 0) {
+      throw new AppError("The upload contains no rows", "INVALID_REQUEST");
+    }
+
+    options.verify?.();
+  };
+
+  const reading =
+    mode === "atomic"
+      ? copyTransaction(async (tx, copyRows) => {
+          await readRows(copyRows);
+          if (errorCount > 0) {
+            tx.rollback();
+          }
+        }).catch((error: unknown) => {
+          if (error instanceof TransactionRollbackError) {
+            inserted = 0;
+            return;
+          }
+          throw error;
+        })
+      : readRows(copyBatchRows);
+
+  await reading.catch(async (error: unknown) => {
+    logger.warn("Streamed upload failed", { batchId, error: getErrorMessage(error) });
+    await db
+      .delete(sheetData)
+      .where(eq(sheetData.batchId, batchId))
+      .catch(() => null);
+    await db
+      .delete(rejectedRows)
+      .where(eq(rejectedRows.batchId, batchId))
+      .catch(() => null);
+    await finishBatch(batchId, 0, "failed", { expectedRows: totalRows }).catch(() => null);
+    recordUpload("stream", "failed", 0, errors.length);
+    throw error;
+  });
+
+  const contentHash = hasher.digest();
+
+  // Skip storage when the sheet has not changed since its latest batch
+  const duplicateOf = options.dedupe
+    ? await findDuplicateBatch(dataset.id, source, contentHash)
+    : null;
+
+  if (duplicateOf) {
+    await deleteBatch(batchId);
+    logger.info("Unchanged streamed upload", { duplicateOf: duplicateOf.id });
+    return {
+      success: true,
+      batchId: duplicateOf.id,
+      dataset: dataset.slug,
+      batchNumber: duplicateOf.batchNumber,
+      mode,
+      status: duplicateOf.status,
+      inserted: 0,
+      errors: [],
+      duplicateOf,
+    };
+  }
+
+  const status = resolveBatchStatus(totalRows, inserted);
+  const finished = await finishBatch(
+    batchId,
+    inserted,
+    status,
+    { expectedRows: totalRows, contentHash, columns },
+    errorCount
+  );
+  recordUpload("stream", status, inserted, errorCount);
+  const currentRecords = await syncCurrentRecords(finished);
+
+  logger.info("Stored streamed upload", {
+    batchId,
+    status,
+    inserted,
+    totalRows,
+    errorCount,
+  });
+
+  return {
+    success: true,
+    batchId,
+    dataset: dataset.slug,
+    batchNumber: batch.batchNumber,
+    mode,
+    status,
+    inserted,
+    errors,
+    errorCount,
+    currentRecords,
+  };
+}
@@ -0,0 +1,376 @@
+// Multi-request upload sessions: open, append numbered chunks, then commit or abort
+import { and, desc, eq, sql, TransactionRollbackError } from "drizzle-orm";
+import { db, type Transaction } from "./client";
+import {
+  batches,
+  datasets,
+  sheetData,
+  sources,
+  uploadChunks,
+  type Batch,
+  type UploadChunk,
+} from "./schema";
+import { createBatch } from "./batches";
+import { getDatasetRowSchema } from "./datasets";
+import { getSourceCoercion } from "./sources";
+import { mergePendingFor, syncCurrentRecords } from "./currentRecords";
+import { queueBatchWebhooks } from "./webhooks";
+import { triggerWebhookDelivery } from "./webhookDelivery";
+import { copyTransaction } from "./rows";
+import type { BatchSource, CurrentRecordsSummary, RowError, SheetDataRow } from "../types";
+import { coerceRow } from "../utils/coercion";
+import { AppError, databaseError } from "../utils/errors";
+import { hashJson } from "../utils/hash";
+import { collectColumns } from "../utils/rows";
+import { assertRequiredColumns, validateRows } from "../utils/rowSchema";
+import { logger } from "../utils/logger";
+import { recordUpload, rowsRejectedTotal, uploadsTotal } from "../utils/metrics";
+
+/**
+ * Current state of an upload session
+ */
+export interface UploadSessionState {
+  batch: Batch;
+  chunks: number;
+  rowsReceived: number;
+  nextChunkNumber: number;
+}
+
+/**
+ * Outcome of appending a chunk
+ * duplicate is true when the same chunk had already been stored and nothing was written
+ */
+export interface AppendChunkResult {
+  chunk: UploadChunk | null;
+  duplicate: boolean;
+  errors: RowError[];
+}
+
+/**
+ * Outcome of committing a session
+ * currentRecords is set when the source has a key column (null if the merge failed)
+ */
+export interface CommitSessionResult {
+  batch: Batch;
+  currentRecords?: CurrentRecordsSummary | null;
+}
+
+/**
+ * Lock a session's batch row for the rest of the transaction
+ * @throws AppError (404) when the batch does not exist
+ */
+async function lockSessionBatch(tx: Transaction, batchId: number): Promise<Batch> {
+  const [batch] = await tx
+    .select()
+    .from(batches)
+    .where(eq(batches.id, batchId))
+    .for("update");
+
+  if (!batch) {
+    throw new AppError(`Upload session not found: ${batchId}`, "UPLOAD_SESSION_NOT_FOUND");
+  }
+
+  return batch;
+}
+
+/**
+ * Get the last chunk stored for a session
+ */
+async function getLastChunk(tx: Transaction, batchId: number): Promise<UploadChunk | null> {
+  const [chunk] = await tx
+    .select()
+    .from(uploadChunks)
+    .where(eq(uploadChunks.batchId, batchId))
+    .orderBy(desc(uploadChunks.chunkNumber))
+    .limit(1);
+
+  return chunk ?? null;
+}
+
+/**
+ * Wrap database failures in an AppError, leaving AppErrors untouched
+ */
+function toSessionError(operation: string) {
+  return (error: unknown): never => {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw databaseError(operation, error);
+  };
+}
+
+/**
+ * Open a new upload session
+ * The session's batch stays hidden from the read endpoints until it is committed
+ * @param datasetId - Dataset the session uploads to
+ * @param source - Optional metadata describing where the upload came from
+ * @param expectedRows - Total rows the client intends to send, checked on commit (0 = unknown)
+ * @param apiKeyId - API key opening the session, the only one (besides admin keys) that can use it
+ * @returns Promise<Batch> - The session's batch
+ */
+export async function openUploadSession(
+  datasetId: number,
+  source: BatchSource = {},
+  expectedRows: number = 0,
+  apiKeyId?: number
+): Promise<Batch> {
+  return createBatch({ datasetId, expectedRows, source, status: "open", apiKeyId });
+}
+
+/**
+ * Get the state of an upload session
+ * @param batchId - The session's batch ID
+ * @returns Promise<UploadSessionState>
+ */
+export async function getUploadSession(batchId: number): Promise<UploadSessionState> {
+  const [batch] = await db
+    .select()
+    .from(batches)
+    .where(eq(batches.id, batchId))
+    .catch(toSessionError("Failed to fetch upload session"));
+
+  if (!batch) {
+    throw new AppError(`Upload session not found: ${batchId}`, "UPLOAD_SESSION_NOT_FOUND");
+  }
+
+  const [summary] = await db
+    .select({
+      chunks: sql<number>`count(*)::int`,
+      lastChunkNumber: sql<number>`coalesce(max(${uploadChunks.chunkNumber}), 0)::int`,
+      rowsReceived: sql<number>`coalesce(sum(${uploadChunks.rowCount}), 0)::int`,
+    })
+    .from(uploadChunks)
+    .where(eq(uploadChunks.batchId, batchId))
+    .catch(toSessionError("Failed to fetch upload session chunks"));
+
+  return {
+    batch,
+    chunks: summary.chunks,
+    rowsReceived: summary.rowsReceived,
+    nextChunkNumber: summary.lastChunkNumber + 1,
+  };
+}
+
+/**
+ * Append a numbered chunk of rows to an open session
+ * Chunks must arrive in order; row numbers continue from the previous chunk.
+ * A re-sent chunk with identical rows is acknowledged without writing anything,
+ * and a chunk is stored entirely or not at all. Rows are checked against the
+ * dataset's row schema, and any rejected row rejects the chunk.
+ * @param batchId - The session's batch ID
+ * @param chunkNumber - 1-based chunk position
+ * @param rows - Rows in the chunk
+ * @returns Promise<AppendChunkResult> - errors is non-empty when the chunk was rejected
+ */
+export async function appendUploadChunk(
+  batchId: number,
+  chunkNumber: number,
+  rows: SheetDataRow[]
+): Promise<AppendChunkResult> {
+  const contentHash = hashJson(rows);
+  let result: AppendChunkResult = { chunk: null, duplicate: false, errors: [] };
+
+  await copyTransaction(async (tx, copyRows) => {
+    const batch = await lockSessionBatch(tx, batchId);
+
+    const [existing] = await tx
+      .select()
+      .from(uploadChunks)
+      .where(and(eq(uploadChunks.batchId, batchId), eq(uploadChunks.chunkNumber, chunkNumber)));
+
+    // Re-sent chunk: acknowledge it when the content matches
+    if (existing) {
+      if (existing.contentHash !== contentHash) {
+        throw new AppError(
+          `Chunk ${chunkNumber} was already received with different rows`,
+          "CHUNK_CONFLICT"
+        );
+      }
+      result = { chunk: existing, duplicate: true, errors: [] };
+      return;
+    }
+
+    if (batch.status !== "open") {
+      throw new AppError(`Upload session ${batchId} is ${batch.status}`, "UPLOAD_SESSION_CLOSED");
+    }
+
+    const lastChunk = await getLastChunk(tx, batchId);
+    const expectedChunkNumber = (lastChunk?.chunkNumber ?? 0) + 1;
+
+    if (chunkNumber !== expectedChunkNumber) {
+      throw new AppError(
+        `Chunk ${chunkNumber} is out of order. Expected chunk ${expectedChunkNumber}.`,
+        "CHUNK_OUT_OF_ORDER"
+      );
+    }
+
+    const firstRowNumber = lastChunk ? lastChunk.firstRowNumber + lastChunk.rowCount : 1;
+
+    // Apply the source's column type hints, as for single uploads
+    const [source] = batch.spreadsheetId
+      ? await tx.select().from(sources).where(eq(sources.spreadsheetId, batch.spreadsheetId))
+      : [];
+    const coercion = getSourceCoercion(source);
+    const chunkRows = coercion ? rows.map((row) => coerceRow(row, coercion)) : rows;
+
+    const [dataset] = await tx.select().from(datasets).where(eq(datasets.id, batch.datasetId));
+    const rowSchema = dataset ? getDatasetRowSchema(dataset) : null;
+    if (rowSchema) {
+      if (dataset.strictSchema) {
+        assertRequiredColumns(rowSchema, chunkRows);
+      }
+      const rejected = validateRows(rowSchema, chunkRows, firstRowNumber);
+      if (rejected.length > 0) {
+        result = { chunk: null, duplicate: false, errors: rejected };
+        rowsRejectedTotal.inc({ type: "session" }, rejected.length);
+        tx.rollback();
+      }
+    }
+
+    const insertData = chunkRows.map((row, index) => ({
+      batchId,
+      rowNumber: firstRowNumber + index,
+      data: row,
+    }));
+
+    const { errors } = await copyRows(insertData, firstRowNumber);
+
+    if (errors.length > 0) {
+      result = { chunk: null, duplicate: false, errors };
+      rowsRejectedTotal.inc({ type: "session" }, errors.length);
+      tx.rollback();
+    }
+
+    const [chunk] = await tx
+      .insert(uploadChunks)
+      .values({ batchId, chunkNumber, firstRowNumber, rowCount: rows.length, contentHash })
+      .returning();
+
+    await tx
+      .update(batches)
+      .set({
+        insertedRows: sql`${batches.insertedRows} + ${rows.length}`,
+        columns: collectColumns(chunkRows, batch.columns ?? []),
+      })
+      .where(eq(batches.id, batchId));
+
+    result = { chunk, duplicate: false, errors: [] };
+  }).catch((error: unknown) => {
+    if (error instanceof TransactionRollbackError) {
+      return;
+    }
+    toSessionError("Failed to append chunk")(error);
+  });
+
+  if (result.chunk && !result.duplicate) {
+    logger.info("Stored upload session chunk", {
+      batchId,
+      chunk: chunkNumber,
+      rowCount: rows.length,
+      firstRowNumber: result.chunk.firstRowNumber,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Commit an upload session, making its rows visible to the read endpoints
+ * Committing an already committed session is a no-op
+ * Matching webhooks are queued in the committing transaction (only on the first commit).
+ * Once committed, the rows are merged into current_records when the source has a key column.
+ * @param batchId - The session's batch ID
+ * @returns Promise<CommitSessionResult> - The committed batch
+ */
+export async function commitUploadSession(batchId: number): Promise<CommitSessionResult> {
+  let committedNow = false;
+  let queued = 0;
+  const batch = await db
+    .transaction(async (tx) => {
+      const batch = await lockSessionBatch(tx, batchId);
+
+      if (batch.status === "complete") {
+        return batch;
+      }
+
+      if (batch.status !== "open") {
+        throw new AppError(`Upload session ${batchId} is ${batch.status}`, "UPLOAD_SESSION_CLOSED");
+      }
+
+      if (batch.insertedRows === 0) {
+        throw new AppError(
+          `Upload session ${batchId} has no rows to commit`,
+          "UPLOAD_SESSION_INCOMPLETE"
+        );
+      }
+
+      if (batch.expectedRows > 0 && batch.expectedRows !== batch.insertedRows) {
+        throw new AppError(
+          `Upload session ${batchId} expected ${batch.expectedRows} rows but received ${batch.insertedRows}`,
+          "UPLOAD_SESSION_INCOMPLETE"
+        );
+      }
+
+      const [committed] = await tx
+        .update(batches)
+        .set({
+          status: "complete",
+          expectedRows: batch.insertedRows,
+          finishedAt: new Date(),
+          mergePending: mergePendingFor("complete"),
+        })
+        .where(eq(batches.id, batchId))
+        .returning();
+
+      queued = await queueBatchWebhooks(tx, committed, 0);
+
+      logger.info("Committed upload session", { batchId, inserted: committed.insertedRows });
+      committedNow = true;
+      return committed;
+    })
+    .catch(toSessionError("Failed to commit upload session"));
+
+  if (queued > 0) {
+    triggerWebhookDelivery();
+  }
+  const currentRecords = await syncCurrentRecords(batch);
+  if (committedNow) {
+    recordUpload("session", batch.status, batch.insertedRows, 0);
+  }
+  return { batch, currentRecords };
+}
+
+/**
+ * Abort an upload session, discarding every row received so far
+ * Aborting an already aborted session is a no-op
+ * @param batchId - The session's batch ID
+ * @returns Promise<Batch> - The aborted batch
+ */
+export async function abortUploadSession(batchId: number): Promise<Batch> {
+  return db
+    .transaction(async (tx) => {
+      const batch = await lockSessionBatch(tx, batchId);
+
+      if (batch.status === "aborted") {
+        return batch;
+      }
+
+      if (batch.status !== "open") {
+        throw new AppError(`Upload session ${batchId} is ${batch.status}`, "UPLOAD_SESSION_CLOSED");
+      }
+
+      await tx.delete(sheetData).where(eq(sheetData.batchId, batchId));
+      await tx.delete(uploadChunks).where(eq(uploadChunks.batchId, batchId));
+
+      const [aborted] = await tx
+        .update(batches)
+        .set({ status: "aborted", insertedRows: 0, finishedAt: new Date() })
+        .where(eq(batches.id, batchId))
+        .returning();
+
+      logger.info("Aborted upload session", { batchId });
+      uploadsTotal.inc({ type: "session", status: "aborted" });
+      return aborted;
+    })
+    .catch(toSessionError("Failed to abort upload session"));
+}
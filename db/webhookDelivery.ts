@@ -0,0 +1,243 @@
+// Webhook delivery: sending due outbox entries, with retries and exponential backoff
+import { sql } from "drizzle-orm";
+import { db } from "./client";
+import { signPayload } from "../middleware/auth";
+import { getErrorMessage } from "../utils/errors";
+import { logger, withoutLogContext } from "../utils/logger";
+import { config } from "../utils/config";
+
+// Seconds between polls of the outbox; 0 disables delivery from this process
+const WEBHOOK_POLL_INTERVAL_SECONDS = config.webhookPollIntervalSeconds;
+// Attempts before a delivery is marked failed
+const WEBHOOK_MAX_ATTEMPTS = config.webhookMaxAttempts;
+// Delay before the first retry; each further retry waits twice as long
+const WEBHOOK_RETRY_BASE_SECONDS = config.webhookRetryBaseSeconds;
+// How long an endpoint has to answer
+const WEBHOOK_TIMEOUT_SECONDS = config.webhookTimeoutSeconds;
+
+// Longest wait between two attempts
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+// Deliveries claimed per poll
+const DELIVERY_BATCH_SIZE = 20;
+// Response text kept in last_error
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * An outbox entry claimed for an attempt, with its endpoint
+ */
+interface DueDelivery {
+  id: number;
+  event: string;
+  payload: unknown;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+/**
+ * Outcome of one attempt
+ */
+interface AttemptResult {
+  delivered: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// The delivery run in progress, if any
+let delivery: Promise<void> | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+// Set on shutdown: no further deliveries are claimed
+let stopped = false;
+
+/**
+ * Claim the deliveries that are due
+ * A claimed delivery's next attempt is pushed back past the request timeout, so a poll
+ * running in another process (or a later one in this process) does not send it twice.
+ * If the process dies mid-attempt, the delivery is picked up again once that time passes.
+ */
+async function claimDueDeliveries(): Promise<DueDelivery[]> {
+  const leaseSeconds = WEBHOOK_TIMEOUT_SECONDS * 2 + 60;
+  const result = await db.execute(
+    sql`UPDATE webhook_deliveries d
+      SET next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => ${leaseSeconds}::int)
+      FROM webhooks w
+      WHERE w.id = d.webhook_id AND w.disabled_at IS NULL AND d.id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+        ORDER BY next_attempt_at, id
+        LIMIT ${DELIVERY_BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING d.id, d.event, d.payload, d.attempts, w.url, w.secret`
+  );
+
+  return result.rows.map((row) => ({
+    id: Number(row.id),
+    event: String(row.event),
+    payload: row.payload,
+    attempts: Number(row.attempts),
+    url: String(row.url),
+    secret: String(row.secret),
+  }));
+}
+
+/**
+ * POST one delivery to its endpoint
+ * The body is signed: X-Signature is sha256=hex(HMAC-SHA256(secret,
+ * `${X-Signature-Timestamp}.${body}`)). Any 2xx response counts as delivered; redirects
+ * are not followed.
+ */
+async function attemptDelivery(delivery: DueDelivery): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "sparti-receiver-webhooks",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": String(delivery.id),
+        "X-Signature-Timestamp": timestamp,
+        "X-Signature": `sha256=${signPayload(delivery.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_SECONDS * 1000),
+    });
+
+    if (response.ok) {
+      return { delivered: true, responseStatus: response.status, error: null };
+    }
+
+    const text = await response.text().catch(() => "");
+    return {
+      delivered: false,
+      responseStatus: response.status,
+      error: `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ""}`,
+    };
+  } catch (error: unknown) {
+    return { delivered: false, responseStatus: null, error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Store the outcome of an attempt, scheduling the next one when attempts remain
+ * A delivery failed in the meantime (its webhook was removed) is left as it is
+ */
+async function recordAttempt(delivery: DueDelivery, result: AttemptResult): Promise<void> {
+  const attempts = delivery.attempts + 1;
+
+  if (result.delivered) {
+    await db.execute(
+      sql`UPDATE webhook_deliveries
+        SET status = 'delivered', attempts = ${attempts},
+          response_status = ${result.responseStatus}, last_error = NULL, last_attempt_at = CURRENT_TIMESTAMP, delivered_at = CURRENT_TIMESTAMP
+        WHERE id = ${delivery.id} AND status = 'pending'`
+    );
+    return;
+  }
+
+  const status = attempts >= WEBHOOK_MAX_ATTEMPTS ? "failed" : "pending";
+  const delaySeconds = Math.min(
+    WEBHOOK_RETRY_BASE_SECONDS * 2 ** delivery.attempts,
+    MAX_RETRY_DELAY_SECONDS
+  );
+
+  await db.execute(
+    sql`UPDATE webhook_deliveries
+      SET status = ${status}, attempts = ${attempts}, response_status = ${result.responseStatus},
+        last_error = ${result.error}, last_attempt_at = CURRENT_TIMESTAMP,
+        next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => ${delaySeconds}::int)
+      WHERE id = ${delivery.id} AND status = 'pending'`
+  );
+}
+
+/**
+ * Send every delivery that is due, until none are left
+ * @returns Promise<number> - Number of deliveries attempted
+ */
+export async function deliverDueWebhooks(): Promise<number> {
+  let attempted = 0;
+
+  while (!stopped) {
+    const due = await claimDueDeliveries();
+    if (due.length === 0) {
+      return attempted;
+    }
+
+    await Promise.all(
+      due.map(async (delivery) => {
+        const result = await attemptDelivery(delivery);
+        await recordAttempt(delivery, result);
+
+        if (result.delivered) {
+          logger.info("Delivered webhook", {
+            event: delivery.event,
+            deliveryId: delivery.id,
+            url: delivery.url,
+          });
+        } else {
+          logger.warn("Webhook delivery failed", {
+            deliveryId: delivery.id,
+            url: delivery.url,
+            attempt: delivery.attempts + 1,
+            error: result.error,
+          });
+        }
+      })
+    );
+
+    attempted += due.length;
+  }
+  return attempted;
+}
+
+/**
+ * Start a delivery run unless one is already going
+ * Called on every poll, and right after new deliveries are queued so they go out at once.
+ */
+export function triggerWebhookDelivery(): void {
+  if (delivery || stopped || !(WEBHOOK_POLL_INTERVAL_SECONDS > 0)) {
+    return;
+  }
+
+  delivery = withoutLogContext(deliverDueWebhooks)
+    .then(() => undefined)
+    .catch((error: unknown) => {
+      logger.error("Webhook delivery run failed", { error: getErrorMessage(error) });
+    })
+    .finally(() => {
+      delivery = null;
+    });
+}
+
+/**
+ * Poll the outbox every WEBHOOK_POLL_INTERVAL_SECONDS, in this process
+ * The timer does not keep the process alive on its own.
+ * @returns NodeJS.Timeout | null - The timer, or null when delivery is disabled
+ */
+export function startWebhookDelivery(): NodeJS.Timeout | null {
+  if (!(WEBHOOK_POLL_INTERVAL_SECONDS > 0)) {
+    logger.info("Webhook delivery disabled");
+    return null;
+  }
+
+  pollTimer = setInterval(triggerWebhookDelivery, WEBHOOK_POLL_INTERVAL_SECONDS * 1000);
+  pollTimer.unref();
+  logger.info("Webhook delivery polling", { intervalSeconds: WEBHOOK_POLL_INTERVAL_SECONDS });
+  return pollTimer;
+}
+
+/**
+ * Stop polling the outbox, and wait for the deliveries being attempted to be recorded
+ * Queued deliveries stay in the outbox for the next process.
+ */
+export async function stopWebhookDelivery(): Promise<void> {
+  stopped = true;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+  }
+  await delivery;
+}
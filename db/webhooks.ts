@@ -0,0 +1,327 @@
+// Webhook registration, the delivery outbox and its log
+import { randomBytes } from "crypto";
+import { and, asc, desc, eq, isNull, lt, sql, type SQL } from "drizzle-orm";
+import { db, type Transaction } from "./client";
+import {
+  webhookDeliveries,
+  webhooks,
+  type Batch,
+  type Webhook,
+  type WebhookDelivery,
+} from "./schema";
+import { triggerWebhookDelivery } from "./webhookDelivery";
+import type { WebhookDeliveryFilters, WebhookDeliveryPage } from "../types";
+import { AppError, databaseError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+/**
+ * Webhook as returned by the API (never includes the secret)
+ */
+export type WebhookSummary = Omit<Webhook, "secret">;
+
+/**
+ * Everything needed to register a webhook
+ * - secret: Signing secret; one is generated when omitted
+ * - datasetId / spreadsheetId: Only call the webhook for batches of this dataset or source
+ */
+export interface NewWebhookParams {
+  url: string;
+  secret?: string;
+  datasetId?: number;
+  spreadsheetId?: string;
+}
+
+/**
+ * Body of a batch.completed delivery
+ * errorCount counts the rows that were rejected or failed to insert
+ */
+export interface BatchCompletedPayload {
+  event: "batch.completed";
+  batchId: number;
+  datasetId: number;
+  batchNumber: number;
+  status: Batch["status"];
+  inserted: number;
+  errorCount: number;
+  expectedRows: number;
+  spreadsheetId: string | null;
+  sheetName: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Strip the secret from a stored webhook
+ */
+function toSummary(webhook: Webhook): WebhookSummary {
+  const { secret: _secret, ...summary } = webhook;
+  return summary;
+}
+
+/**
+ * Register a webhook
+ * The secret is returned here and nowhere else
+ * @param params - URL, optional secret and filters
+ * @returns Promise<{ webhook: WebhookSummary; secret: string }>
+ */
+export async function createWebhook(
+  params: NewWebhookParams
+): Promise<{ webhook: WebhookSummary; secret: string }> {
+  const secret = params.secret ?? `whsec_${randomBytes(32).toString("base64url")}`;
+
+  const [webhook] = await db
+    .insert(webhooks)
+    .values({
+      url: params.url,
+      secret,
+      datasetId: params.datasetId,
+      spreadsheetId: params.spreadsheetId,
+    })
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to create webhook", error);
+    });
+
+  return { webhook: toSummary(webhook), secret };
+}
+
+/**
+ * List every webhook, including removed ones
+ * @returns Promise<WebhookSummary[]>
+ */
+export async function listWebhooks(): Promise<WebhookSummary[]> {
+  const rows = await db
+    .select()
+    .from(webhooks)
+    .orderBy(asc(webhooks.id))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list webhooks", error);
+    });
+
+  return rows.map(toSummary);
+}
+
+/**
+ * Get a webhook by ID
+ * @param id - The webhook's ID
+ * @returns Promise<WebhookSummary>
+ * @throws AppError (404) when there is no such webhook
+ */
+export async function getWebhook(id: number): Promise<WebhookSummary> {
+  const [webhook] = await db
+    .select()
+    .from(webhooks)
+    .where(eq(webhooks.id, id))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch webhook", error);
+    });
+
+  if (!webhook) {
+    throw new AppError(`Webhook not found: ${id}`, "WEBHOOK_NOT_FOUND");
+  }
+
+  return toSummary(webhook);
+}
+
+/**
+ * Remove a webhook: nothing more is delivered to it, and its pending deliveries fail
+ * The webhook and its delivery log are kept.
+ * @param id - The webhook's ID
+ * @returns Promise<WebhookSummary> - The removed webhook
+ * @throws AppError (404) when there is no active webhook with this ID
+ */
+export async function disableWebhook(id: number): Promise<WebhookSummary> {
+  const webhook = await db
+    .transaction(async (tx) => {
+      const [disabled] = await tx
+        .update(webhooks)
+        .set({ disabledAt: new Date() })
+        .where(and(eq(webhooks.id, id), isNull(webhooks.disabledAt)))
+        .returning();
+
+      if (!disabled) {
+        throw new AppError(`No active webhook found with id: ${id}`, "WEBHOOK_NOT_FOUND");
+      }
+
+      await tx
+        .update(webhookDeliveries)
+        .set({ status: "failed", lastError: "Webhook removed" })
+        .where(and(eq(webhookDeliveries.webhookId, id), eq(webhookDeliveries.status, "pending")));
+
+      return disabled;
+    })
+    .catch((error: unknown) => {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw databaseError("Failed to remove webhook", error);
+    });
+
+  return toSummary(webhook);
+}
+
+/**
+ * Queue a batch.completed delivery for every active webhook matching a finished batch
+ * Runs in the transaction that sets the batch's final status, so a batch is never finished
+ * without its deliveries; the caller starts a delivery run once it has committed.
+ * The payload also carries the dataset slug.
+ * @param tx - The transaction finishing the batch
+ * @param batch - The finished batch
+ * @param errorCount - Rows rejected or failed to insert
+ * @returns Promise<number> - Number of deliveries queued
+ */
+export async function queueBatchWebhooks(
+  tx: Transaction,
+  batch: Batch,
+  errorCount: number
+): Promise<number> {
+  const payload: BatchCompletedPayload = {
+    event: "batch.completed",
+    batchId: batch.id,
+    datasetId: batch.datasetId,
+    batchNumber: batch.batchNumber,
+    status: batch.status,
+    inserted: batch.insertedRows,
+    errorCount,
+    expectedRows: batch.expectedRows,
+    spreadsheetId: batch.spreadsheetId,
+    sheetName: batch.sheetName,
+    finishedAt: batch.finishedAt?.toISOString() ?? null,
+  };
+
+  const queued = await tx.execute(
+    sql`INSERT INTO webhook_deliveries (webhook_id, batch_id, event, payload)
+      SELECT w.id, ${batch.id}, ${payload.event},
+        ${JSON.stringify(payload)}::jsonb || jsonb_build_object('dataset', d.slug)
+      FROM webhooks w
+      JOIN datasets d ON d.id = ${batch.datasetId}
+      WHERE w.disabled_at IS NULL
+        AND (w.dataset_id IS NULL OR w.dataset_id = ${batch.datasetId})
+        AND (w.spreadsheet_id IS NULL OR w.spreadsheet_id = ${batch.spreadsheetId})`
+  );
+
+  const count = queued.rowCount ?? 0;
+  if (count > 0) {
+    logger.info("Queued webhook deliveries", { batchId: batch.id, count });
+  }
+  return count;
+}
+
+/**
+ * Queue a ping delivery, to check that an endpoint receives and verifies deliveries
+ * @param id - The webhook's ID
+ * @returns Promise<WebhookDelivery> - The queued delivery
+ * @throws AppError (404) when there is no active webhook with this ID
+ */
+export async function queueWebhookPing(id: number): Promise<WebhookDelivery> {
+  const webhook = await getWebhook(id);
+  if (webhook.disabledAt) {
+    throw new AppError(`No active webhook found with id: ${id}`, "WEBHOOK_NOT_FOUND");
+  }
+
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({ webhookId: id, event: "ping", payload: { event: "ping", webhookId: id } })
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to queue webhook ping", error);
+    });
+
+  triggerWebhookDelivery();
+  return delivery;
+}
+
+/**
+ * List a webhook's deliveries, newest first
+ * @param webhookId - The webhook's ID
+ * @param filters - Status filter, cursor and page size
+ * @returns Promise<WebhookDeliveryPage>
+ */
+export async function listWebhookDeliveries(
+  webhookId: number,
+  filters: WebhookDeliveryFilters = {}
+): Promise<WebhookDeliveryPage> {
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 500);
+  const conditions: SQL[] = [eq(webhookDeliveries.webhookId, webhookId)];
+
+  if (filters.status) {
+    conditions.push(eq(webhookDeliveries.status, filters.status));
+  }
+  if (filters.batchId) {
+    conditions.push(eq(webhookDeliveries.batchId, filters.batchId));
+  }
+  if (filters.cursor) {
+    conditions.push(lt(webhookDeliveries.id, filters.cursor));
+  }
+
+  // Fetch one extra row to find out whether another page exists
+  const rows = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.id))
+    .limit(limit + 1)
+    .catch((error: unknown) => {
+      throw databaseError("Failed to list webhook deliveries", error);
+    });
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? page[page.length - 1].id : null;
+
+  return { deliveries: page, nextCursor };
+}
+
+/**
+ * Send a failed delivery again, with a fresh set of attempts
+ * @param webhookId - The webhook's ID
+ * @param deliveryId - The delivery's ID
+ * @returns Promise<WebhookDelivery> - The delivery, pending again
+ * @throws AppError (404) when the delivery does not exist, (409) when it has not failed
+ *   or the webhook has been removed
+ */
+export async function retryWebhookDelivery(
+  webhookId: number,
+  deliveryId: number
+): Promise<WebhookDelivery> {
+  const webhook = await getWebhook(webhookId);
+  if (webhook.disabledAt) {
+    throw new AppError(`Webhook ${webhookId} has been removed`, "WEBHOOK_REMOVED");
+  }
+
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.webhookId, webhookId)))
+    .catch((error: unknown) => {
+      throw databaseError("Failed to fetch webhook delivery", error);
+    });
+
+  if (!delivery) {
+    throw new AppError(`Webhook delivery not found: ${deliveryId}`, "WEBHOOK_DELIVERY_NOT_FOUND");
+  }
+
+  if (delivery.status !== "failed") {
+    throw new AppError(
+      `Webhook delivery ${deliveryId} is ${delivery.status}`,
+      "WEBHOOK_DELIVERY_NOT_FAILED"
+    );
+  }
+
+  const [retried] = await db
+    .update(webhookDeliveries)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: sql`CURRENT_TIMESTAMP` })
+    .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.status, "failed")))
+    .returning()
+    .catch((error: unknown) => {
+      throw databaseError("Failed to retry webhook delivery", error);
+    });
+
+  if (!retried) {
+    throw new AppError(
+      `Webhook delivery ${deliveryId} is no longer failed`,
+      "WEBHOOK_DELIVERY_NOT_FAILED"
+    );
+  }
+
+  triggerWebhookDelivery();
+  return retried;
+}
@@ -6,7 +6,7 @@ dotenv.config();
 const config = {
   schema: "./db/schema.ts",
   out: "./drizzle",
-  dialect: "postgresql" as const,
+  driver: "pg" as const,
   dbCredentials: {
     host: process.env.DB_HOST || "localhost",
     port: parseInt(process.env.DB_PORT || "5432", 10),
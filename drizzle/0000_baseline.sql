@@ -0,0 +1,251 @@
+CREATE TABLE IF NOT EXISTS "api_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"key_prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"scopes" text[] NOT NULL,
+	"require_signature" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp,
+	"revoked_at" timestamp,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"dataset_id" integer NOT NULL,
+	"batch_number" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"expected_rows" integer NOT NULL,
+	"inserted_rows" integer DEFAULT 0 NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"spreadsheet_id" text,
+	"sheet_name" text,
+	"uploaded_by" text,
+	"tags" text[] DEFAULT '{}' NOT NULL,
+	"content_hash" text,
+	"columns" text[],
+	"deleted_at" timestamp,
+	CONSTRAINT "unique_dataset_batch" UNIQUE("dataset_id","batch_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "current_records" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"dataset_id" integer NOT NULL,
+	"spreadsheet_id" text NOT NULL,
+	"sheet_name" text DEFAULT '' NOT NULL,
+	"record_key" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"batch_id" integer,
+	"seen_batch_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"deleted_at" timestamp,
+	CONSTRAINT "unique_current_record" UNIQUE("dataset_id","spreadsheet_id","sheet_name","record_key")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "datasets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"description" text,
+	"next_batch_number" integer DEFAULT 1 NOT NULL,
+	"row_schema" jsonb,
+	"strict_schema" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "datasets_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "idempotency_keys" (
+	"key" text PRIMARY KEY NOT NULL,
+	"request_hash" text NOT NULL,
+	"status_code" integer,
+	"response" jsonb,
+	"batch_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ingest_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"dataset_id" integer NOT NULL,
+	"rows" jsonb,
+	"options" jsonb,
+	"batch_id" integer,
+	"batch_status" text,
+	"total_rows" integer NOT NULL,
+	"inserted_rows" integer DEFAULT 0 NOT NULL,
+	"chunk" integer DEFAULT 0 NOT NULL,
+	"total_chunks" integer,
+	"errors" jsonb,
+	"error_count" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"heartbeat_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "rejected_rows" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"batch_id" integer NOT NULL,
+	"row_number" integer NOT NULL,
+	"row_data" text NOT NULL,
+	"error" text NOT NULL,
+	"field_errors" jsonb,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "unique_rejected_row" UNIQUE("batch_id","row_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sheet_data" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"batch_id" integer NOT NULL,
+	"row_number" integer NOT NULL,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "unique_batch_row" UNIQUE("batch_id","row_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sources" (
+	"spreadsheet_id" text PRIMARY KEY NOT NULL,
+	"upload_mode" text DEFAULT 'best_effort' NOT NULL,
+	"dedupe" boolean DEFAULT false NOT NULL,
+	"column_types" jsonb,
+	"timezone" text,
+	"date_order" text DEFAULT 'mdy' NOT NULL,
+	"key_column" text,
+	"delete_missing" boolean DEFAULT false NOT NULL,
+	"retain_batches" integer,
+	"retain_days" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "upload_chunks" (
+	"batch_id" integer NOT NULL,
+	"chunk_number" integer NOT NULL,
+	"first_row_number" integer NOT NULL,
+	"row_count" integer NOT NULL,
+	"content_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "upload_chunks_batch_id_chunk_number_pk" PRIMARY KEY("batch_id","chunk_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"webhook_id" integer NOT NULL,
+	"batch_id" integer,
+	"event" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"last_attempt_at" timestamp,
+	"response_status" integer,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"delivered_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhooks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"url" text NOT NULL,
+	"secret" text NOT NULL,
+	"dataset_id" integer,
+	"spreadsheet_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"disabled_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_batches_source" ON "batches" ("spreadsheet_id","sheet_name");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_batches_started_at" ON "batches" ("started_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_current_records_batch_id" ON "current_records" ("batch_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_ingest_jobs_status" ON "ingest_jobs" ("status","id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_sheet_data_batch_id" ON "sheet_data" ("batch_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_sheet_data_row_number" ON "sheet_data" ("batch_id","row_number");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_webhook_id" ON "webhook_deliveries" ("webhook_id","id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_due" ON "webhook_deliveries" ("next_attempt_at") WHERE status = 'pending';--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "batches" ADD CONSTRAINT "batches_dataset_id_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "datasets"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "current_records" ADD CONSTRAINT "current_records_dataset_id_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "datasets"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "current_records" ADD CONSTRAINT "current_records_batch_id_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "idempotency_keys" ADD CONSTRAINT "idempotency_keys_batch_id_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingest_jobs" ADD CONSTRAINT "ingest_jobs_dataset_id_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "datasets"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingest_jobs" ADD CONSTRAINT "ingest_jobs_batch_id_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rejected_rows" ADD CONSTRAINT "rejected_rows_batch_id_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sheet_data" ADD CONSTRAINT "sheet_data_batch_id_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "upload_chunks" ADD CONSTRAINT "upload_chunks_batch_id_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_webhook_id_webhooks_id_fk" FOREIGN KEY ("webhook_id") REFERENCES "webhooks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_batch_id_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "webhooks" ADD CONSTRAINT "webhooks_dataset_id_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "datasets"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Written by hand: drizzle-kit does not generate CHECK constraints or seed rows
+ALTER TABLE "batches" ADD CONSTRAINT "batches_status_check" CHECK ("status" IN ('pending', 'complete', 'partial', 'failed', 'open', 'aborted'));--> statement-breakpoint
+ALTER TABLE "sources" ADD CONSTRAINT "sources_upload_mode_check" CHECK ("upload_mode" IN ('best_effort', 'atomic'));--> statement-breakpoint
+ALTER TABLE "sources" ADD CONSTRAINT "sources_date_order_check" CHECK ("date_order" IN ('mdy', 'dmy'));--> statement-breakpoint
+ALTER TABLE "sources" ADD CONSTRAINT "sources_retain_batches_check" CHECK ("retain_batches" >= 0);--> statement-breakpoint
+ALTER TABLE "sources" ADD CONSTRAINT "sources_retain_days_check" CHECK ("retain_days" >= 0);--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_status_check" CHECK ("status" IN ('pending', 'delivered', 'failed'));--> statement-breakpoint
+ALTER TABLE "ingest_jobs" ADD CONSTRAINT "ingest_jobs_status_check" CHECK ("status" IN ('queued', 'running', 'complete', 'failed'));--> statement-breakpoint
+INSERT INTO "datasets" ("slug", "description") VALUES ('default', 'Uploads sent without a dataset') ON CONFLICT ("slug") DO NOTHING;
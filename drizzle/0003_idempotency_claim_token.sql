@@ -0,0 +1 @@
+ALTER TABLE "idempotency_keys" ADD COLUMN "claim_token" text;
\ No newline at end of file
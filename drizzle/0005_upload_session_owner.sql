@@ -0,0 +1,6 @@
+ALTER TABLE "batches" ADD COLUMN "api_key_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "batches" ADD CONSTRAINT "batches_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "api_keys"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1 @@
+ALTER TABLE "batches" ADD COLUMN "merge_pending" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,268 @@
+-- Upgrade for databases set up before versioned migrations, by the schema setup that ran on
+-- every start. It is that setup as last released: it creates the tables and columns a database
+-- from any earlier release is missing, and backfills batches and datasets for its rows. Run by
+-- db/migrations.ts before 0000_baseline is recorded as baselined; not listed in the journal.
+CREATE TABLE IF NOT EXISTS datasets (
+  id SERIAL PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  description TEXT,
+  next_batch_number INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+INSERT INTO datasets (slug, description)
+VALUES ('default', 'Uploads sent without a dataset')
+ON CONFLICT (slug) DO NOTHING;
+--> statement-breakpoint
+ALTER TABLE datasets ADD COLUMN IF NOT EXISTS row_schema JSONB;
+--> statement-breakpoint
+ALTER TABLE datasets ADD COLUMN IF NOT EXISTS strict_schema BOOLEAN NOT NULL DEFAULT false;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS batches (
+  id SERIAL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'pending',
+  expected_rows INTEGER NOT NULL,
+  inserted_rows INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS spreadsheet_id TEXT;
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS sheet_name TEXT;
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS uploaded_by TEXT;
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS content_hash TEXT;
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS columns TEXT[];
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS dataset_id INTEGER REFERENCES datasets(id);
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS batch_number INTEGER;
+--> statement-breakpoint
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_batches_source ON batches(spreadsheet_id, sheet_name);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_batches_started_at ON batches(started_at);
+--> statement-breakpoint
+ALTER TABLE batches DROP CONSTRAINT IF EXISTS batches_status_check;
+--> statement-breakpoint
+ALTER TABLE batches ADD CONSTRAINT batches_status_check
+  CHECK (status IN ('pending', 'complete', 'partial', 'failed', 'open', 'aborted')) NOT VALID;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS upload_chunks (
+  batch_id INTEGER NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  chunk_number INTEGER NOT NULL,
+  first_row_number INTEGER NOT NULL,
+  row_count INTEGER NOT NULL,
+  content_hash TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (batch_id, chunk_number)
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  key TEXT PRIMARY KEY,
+  request_hash TEXT NOT NULL,
+  status_code INTEGER,
+  response JSONB,
+  batch_id INTEGER REFERENCES batches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS sources (
+  spreadsheet_id TEXT PRIMARY KEY,
+  upload_mode TEXT NOT NULL DEFAULT 'best_effort'
+    CHECK (upload_mode IN ('best_effort', 'atomic')),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS dedupe BOOLEAN NOT NULL DEFAULT false;
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS column_types JSONB;
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS timezone TEXT;
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS date_order TEXT NOT NULL DEFAULT 'mdy'
+  CHECK (date_order IN ('mdy', 'dmy'));
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS key_column TEXT;
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS delete_missing BOOLEAN NOT NULL DEFAULT false;
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS retain_batches INTEGER CHECK (retain_batches >= 0);
+--> statement-breakpoint
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS retain_days INTEGER CHECK (retain_days >= 0);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS current_records (
+  id SERIAL PRIMARY KEY,
+  dataset_id INTEGER NOT NULL REFERENCES datasets(id),
+  spreadsheet_id TEXT NOT NULL,
+  sheet_name TEXT NOT NULL DEFAULT '',
+  record_key TEXT NOT NULL,
+  data JSONB NOT NULL,
+  batch_id INTEGER REFERENCES batches(id) ON DELETE SET NULL,
+  seen_batch_id INTEGER NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  deleted_at TIMESTAMP,
+  CONSTRAINT unique_current_record UNIQUE (dataset_id, spreadsheet_id, sheet_name, record_key)
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_current_records_batch_id ON current_records(batch_id);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL,
+  require_signature BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS webhooks (
+  id SERIAL PRIMARY KEY,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  dataset_id INTEGER REFERENCES datasets(id),
+  spreadsheet_id TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  disabled_at TIMESTAMP
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id SERIAL PRIMARY KEY,
+  webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  batch_id INTEGER REFERENCES batches(id) ON DELETE SET NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_attempt_at TIMESTAMP,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  delivered_at TIMESTAMP
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+  id SERIAL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'complete', 'failed')),
+  dataset_id INTEGER NOT NULL REFERENCES datasets(id),
+  rows JSONB,
+  options JSONB,
+  batch_id INTEGER REFERENCES batches(id) ON DELETE SET NULL,
+  batch_status TEXT,
+  total_rows INTEGER NOT NULL,
+  inserted_rows INTEGER NOT NULL DEFAULT 0,
+  chunk INTEGER NOT NULL DEFAULT 0,
+  total_chunks INTEGER,
+  errors JSONB,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  heartbeat_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_status ON ingest_jobs(status, id);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS sheet_data (
+  id SERIAL PRIMARY KEY,
+  batch_id INTEGER NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_batch_row UNIQUE (batch_id, row_number)
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_sheet_data_batch_id ON sheet_data(batch_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_sheet_data_row_number ON sheet_data(batch_id, row_number);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS rejected_rows (
+  id SERIAL PRIMARY KEY,
+  batch_id INTEGER NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  row_data TEXT NOT NULL,
+  error TEXT NOT NULL,
+  field_errors JSONB,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_rejected_row UNIQUE (batch_id, row_number)
+);
+--> statement-breakpoint
+-- Backfill batches for rows written before the batches table existed
+DO $$
+DECLARE
+  backfilled INTEGER;
+BEGIN
+  INSERT INTO batches (id, status, expected_rows, inserted_rows, started_at, finished_at)
+  SELECT batch_id, 'complete', COUNT(*), COUNT(*), MIN(created_at), MAX(created_at)
+  FROM sheet_data
+  WHERE batch_id NOT IN (SELECT id FROM batches)
+  GROUP BY batch_id;
+
+  GET DIAGNOSTICS backfilled = ROW_COUNT;
+  IF backfilled > 0 THEN
+    PERFORM setval(pg_get_serial_sequence('batches', 'id'), (SELECT MAX(id) FROM batches));
+  END IF;
+END $$;
+--> statement-breakpoint
+-- Batches created before datasets existed belong to the default dataset
+DO $$
+DECLARE
+  default_dataset_id INTEGER;
+BEGIN
+  SELECT id INTO default_dataset_id FROM datasets WHERE slug = 'default';
+
+  UPDATE batches
+  SET dataset_id = default_dataset_id, batch_number = id
+  WHERE dataset_id IS NULL;
+
+  IF FOUND THEN
+    UPDATE datasets
+    SET next_batch_number = GREATEST(
+      next_batch_number,
+      (SELECT COALESCE(MAX(batch_number), 0) + 1 FROM batches WHERE dataset_id = default_dataset_id)
+    )
+    WHERE id = default_dataset_id;
+  END IF;
+
+  ALTER TABLE batches ALTER COLUMN dataset_id SET NOT NULL;
+  ALTER TABLE batches ALTER COLUMN batch_number SET NOT NULL;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'unique_dataset_batch') THEN
+    ALTER TABLE batches
+      ADD CONSTRAINT unique_dataset_batch UNIQUE (dataset_id, batch_number);
+  END IF;
+END $$;
+--> statement-breakpoint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'sheet_data_batch_id_fkey'
+  ) THEN
+    ALTER TABLE sheet_data
+      ADD CONSTRAINT sheet_data_batch_id_fkey
+      FOREIGN KEY (batch_id) REFERENCES batches(id) ON DELETE CASCADE;
+  END IF;
+END $$;
@@ -1,122 +1,119 @@
 // Sparti Node.js service - TypeScript version
 import express, { Request, Response } from "express";
+import type { Server } from "http";
 import {
-  testConnection,
-  initializeSchema,
-  storeSheetData,
   fetchBatchData,
-  getAllBatchIds,
+  getBatch,
+  isReadableBatch,
+  listBatches,
+  narrowsRows,
+  pool,
 } from "./db";
+import { listCurrentRecords } from "./db/currentRecords";
+import { startRetentionSchedule, stopRetentionSchedule } from "./db/retention";
+import { startWebhookDelivery, stopWebhookDelivery } from "./db/webhookDelivery";
+import { getIngestJob } from "./db/jobs";
+import { startJobWorker, stopJobWorker } from "./db/jobWorker";
+import { assertSchemaCurrent, runMigrations } from "./db/migrations";
+import { isDatabaseUsable } from "./db/health";
 import { errorHandler, asyncHandler } from "./middleware/errorHandler";
+import { idempotency } from "./middleware/idempotency";
+import { requestId, requestLogContext } from "./middleware/requestId";
+import { authenticate, hasScope, requireScope } from "./middleware/auth";
+import {
+  acceptRequests,
+  beginDraining,
+  getServerState,
+  getWritesInFlight,
+  markReady,
+  waitForWrites,
+} from "./middleware/lifecycle";
+import { config } from "./utils/config";
 import { sendErrorResponse, sendSuccessResponse } from "./utils/errors";
-import { SheetDataRow, StoreSheetDataResult } from "./types";
-import dotenv from "dotenv";
-
-dotenv.config();
+import { logger } from "./utils/logger";
+import { renderMetrics } from "./utils/metrics";
+import {
+  parseBatchListFilters,
+  parseBatchRowQuery,
+  parseCurrentRecordFilters,
+  requirePositiveInt,
+} from "./utils/validation";
+import { uploadSheetData } from "./routes/uploads";
+import { exportBatch } from "./routes/exports";
+import { diffBatches } from "./routes/diffs";
+import { deleteBatchHandler, restoreBatchHandler } from "./routes/batchDeletion";
+import { listRejectionsHandler, replayRejectionsHandler } from "./routes/rejections";
+import sourcesRouter from "./routes/sources";
+import uploadSessionsRouter from "./routes/uploadSessions";
+import apiKeysRouter from "./routes/apiKeys";
+import datasetsRouter from "./routes/datasets";
+import datasetAdminRouter from "./routes/datasetAdmin";
+import webhooksRouter from "./routes/webhooks";
 
 const app = express();
-const port = parseInt(process.env.PORT || "3000", 10);
+const port = config.port;
 
-// Middleware to parse JSON bodies with 100MB limit
-app.use(express.json({ limit: "100mb" }));
-app.use(express.urlencoded({ limit: "100mb", extended: true }));
+// Apply pending migrations on startup instead of only checking for them
+const MIGRATE_ON_START = config.migrateOnStart;
 
-// Initialize database schema and test connection on startup
-(async (): Promise<void> => {
-  await initializeSchema().catch((err) => {
-    console.error("[testing] Failed to initialize database schema:", err.message);
-  });
+// Every request gets an ID, sent back in X-Request-Id and in error responses
+app.use(requestId);
 
-  const connectionResult = await testConnection().catch((err) => {
-    console.error("[testing] Failed to connect to database:", err.message);
-    return false;
-  });
+// Middleware to parse JSON bodies up to BODY_LIMIT (100MB by default)
+// The raw body is kept for HMAC signature verification
+app.use(
+  express.json({
+    limit: config.bodyLimit,
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    },
+  })
+);
+app.use(express.urlencoded({ limit: config.bodyLimit, extended: true }));
 
-  if (!connectionResult) {
-    console.warn("[testing] Database connection failed on startup, but server will continue");
-  }
-})();
+// Lines logged while handling a request carry its ID
+app.use(requestLogContext);
 
-// Type for upload request body
-interface UploadRequestBody {
-  sheetData?: SheetDataRow[];
-}
+// API requests wait for the schema check, and writes stop while shutting down
+app.use("/api", acceptRequests);
 
-// The endpoint that your Google Apps Script POSTs to
-app.post(
-  "/api/upload-sheet-data",
-  asyncHandler(async (req: Request<unknown, unknown, UploadRequestBody>, res: Response) => {
-    console.log("[testing] Received data from Google Sheets");
-    const { sheetData } = req.body;
+// Every /api route requires an API key
+app.use("/api", authenticate);
 
-    // Early returns for validation errors
-    if (!sheetData) {
-      sendErrorResponse(
-        res,
-        "No sheetData provided in the request body",
-        400
-      );
-      return;
-    }
+// The endpoint that your Google Apps Script POSTs to (default dataset)
+app.post("/api/upload-sheet-data", requireScope("upload"), idempotency, uploadSheetData);
 
-    if (!Array.isArray(sheetData)) {
-      sendErrorResponse(
-        res,
-        "sheetData must be an array",
-        400
-      );
-      return;
-    }
-
-    if (sheetData.length === 0) {
-      sendErrorResponse(
-        res,
-        "sheetData array cannot be empty",
-        400
-      );
-      return;
-    }
-
-    console.log(`[testing] Received ${sheetData.length} rows of data.`);
-    console.log(`[testing] First row sample:`, JSON.stringify(sheetData[0], null, 2));
-
-    // Store data to PostgreSQL using Drizzle ORM
-    const result: StoreSheetDataResult = await storeSheetData(sheetData);
+// Liveness probe: the process is up and answering; never touches the database
+app.get("/livez", (_req: Request, res: Response) => {
+  sendSuccessResponse(res, { status: "alive" });
+});
 
-    // Handle partial success (some rows failed)
-    if (result.errors.length > 0) {
-      console.warn(`[testing] Completed with ${result.errors.length} errors`);
-      sendSuccessResponse(
-        res,
-        {
-          batchId: result.batchId,
-          inserted: result.inserted,
-          errors: result.errors,
-        },
-        207,
-        `Data stored with ${result.errors.length} errors`
-      );
-      return;
-    }
+// Readiness probe: the schema check passed, the pool can run queries and the server is
+// not shutting down
+app.get(
+  "/readyz",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const state = getServerState();
+    const databaseUsable = state === "ready" && (await isDatabaseUsable());
+    const status = state === "ready" && !databaseUsable ? "unavailable" : state;
 
-    // Full success
     sendSuccessResponse(
       res,
       {
-        batchId: result.batchId,
-        inserted: result.inserted,
+        status,
+        migrations: state === "starting" ? "unchecked" : "current",
+        database: databaseUsable ? "connected" : state === "ready" ? "disconnected" : "unchecked",
       },
-      200,
-      `Successfully stored ${result.inserted} rows to database`
+      status === "ready" ? 200 : 503
     );
   })
 );
 
-// Health check endpoint
+// Former health check, kept for existing probes; same checks as /readyz
 app.get(
   "/health",
   asyncHandler(async (_req: Request, res: Response) => {
-    const dbConnected = await testConnection();
+    const dbConnected = getServerState() === "ready" && (await isDatabaseUsable());
     const status = dbConnected ? "healthy" : "unhealthy";
     const databaseStatus = dbConnected ? "connected" : "disconnected";
 
@@ -131,9 +128,16 @@ app.get(
   })
 );
 
-// Endpoint to fetch all rows for a specific batch_id
+// Prometheus metrics: uploads, rows, insert latency and connection pool usage
+app.get("/metrics", (_req: Request, res: Response) => {
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.send(renderMetrics());
+});
+
+// Endpoint to fetch the rows of a specific batch_id (filtered, sorted, projected and paged on request)
 app.get(
   "/api/batch/:batchId",
+  requireScope("read"),
   asyncHandler(async (req: Request, res: Response) => {
     const batchIdParam = (req.params as { batchId: string }).batchId;
     const batchId = parseInt(batchIdParam, 10);
@@ -143,19 +147,23 @@ app.get(
       sendErrorResponse(
         res,
         `Invalid batchId: ${batchIdParam}. Must be a positive number.`,
-        400
+        "INVALID_REQUEST"
       );
       return;
     }
 
-    const rows = await fetchBatchData(batchId);
+    const query = parseBatchRowQuery(req.query as Record<string, unknown>);
+    const batch = await getBatch(batchId);
+    const { rows, nextCursor } = isReadableBatch(batch)
+      ? await fetchBatchData(batchId, query)
+      : { rows: [], nextCursor: null };
 
-    // Early return if no data found
-    if (rows.length === 0) {
+    // Early return if no data found (an empty page of a filtered query is still a result)
+    if (!isReadableBatch(batch) || (rows.length === 0 && !narrowsRows(query))) {
       sendErrorResponse(
         res,
         `No data found for batch_id: ${batchId}`,
-        404
+        "BATCH_NOT_FOUND"
       );
       return;
     }
@@ -166,33 +174,183 @@ app.get(
         batchId,
         count: rows.length,
         data: rows,
+        nextCursor,
       },
       200
     );
   })
 );
 
-// Endpoint to list all batch IDs
+// Endpoint to download a batch as CSV, NDJSON or JSON, streamed from a cursor
+app.get("/api/batch/:batchId/export", requireScope("read"), exportBatch);
+
+// Endpoint to compare two batches, matching rows on a key column
+app.get("/api/batch/:batchId/diff/:otherBatchId", requireScope("read"), diffBatches);
+
+// Endpoints to soft-delete a batch and to restore it before it is purged
+app.delete("/api/batch/:batchId", requireScope("admin"), deleteBatchHandler);
+app.post("/api/batch/:batchId/restore", requireScope("admin"), restoreBatchHandler);
+
+// Endpoints to list a batch's rejected rows and to replay them into the batch
+// Replaying writes rows and sends rejected rows back in its errors, so it takes both scopes
+app.get("/api/batch/:batchId/rejections", requireScope("read"), listRejectionsHandler);
+app.post(
+  "/api/batch/:batchId/rejections/replay",
+  requireScope("read"),
+  requireScope("upload"),
+  replayRejectionsHandler
+);
+
+// Endpoint to follow an upload made in async mode
+// Row errors carry the rejected rows, so only the key that queued the job (or one with the
+// read scope) gets them; other keys see the counts
+app.get(
+  "/api/jobs/:id",
+  requireScope("upload"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = await getIngestJob(requirePositiveInt(req.params.id, "id"));
+    const canReadRows = job.apiKeyId === req.apiKey?.id || hasScope(req, "read");
+
+    sendSuccessResponse(res, canReadRows ? job : { ...job, errors: null }, 200);
+  })
+);
+
+// Endpoint to list batches with their source metadata
 app.get(
   "/api/batches",
-  asyncHandler(async (_req: Request, res: Response) => {
-    const batchIds = await getAllBatchIds();
+  requireScope("read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const filters = parseBatchListFilters(req.query as Record<string, unknown>);
+    const { batches, nextCursor } = await listBatches(filters);
 
     sendSuccessResponse(
       res,
       {
-        count: batchIds.length,
-        batchIds,
+        count: batches.length,
+        batches,
+        nextCursor,
       },
       200
     );
   })
 );
 
+// Endpoint to list the current state of sources that have a key column
+app.get(
+  "/api/current-records",
+  requireScope("read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const filters = parseCurrentRecordFilters(req.query as Record<string, unknown>);
+    const { records, nextCursor } = await listCurrentRecords(filters);
+
+    sendSuccessResponse(
+      res,
+      {
+        count: records.length,
+        records,
+        nextCursor,
+      },
+      200
+    );
+  })
+);
+
+// Per-source upload settings
+app.use("/api/sources", requireScope("admin"), sourcesRouter);
+
+// Multi-request upload sessions for sheets too large for a single request (default dataset)
+app.use("/api/upload-sessions", requireScope("upload"), uploadSessionsRouter);
+
+// Dataset-scoped uploads, sessions and batch listings
+app.use("/api/datasets", datasetsRouter);
+
+// API key and dataset management
+app.use("/api/admin/api-keys", requireScope("admin"), apiKeysRouter);
+app.use("/api/admin/datasets", requireScope("admin"), datasetAdminRouter);
+app.use("/api/admin/webhooks", requireScope("admin"), webhooksRouter);
+
+// Unknown routes get a JSON error like every other failure
+app.use((req: Request, res: Response) => {
+  sendErrorResponse(res, `Route not found: ${req.method} ${req.path}`, "NOT_FOUND");
+});
+
 // Apply error handling middleware (must be last)
 app.use(errorHandler);
 
-app.listen(port, () => {
-  console.log(`Sparti Service listening at http://localhost:${port}`);
+/**
+ * Shut down gracefully: refuse new writes, let the ones in flight and the background
+ * workers finish (for up to SHUTDOWN_TIMEOUT_SECONDS), then stop listening and close the pool
+ * Reads, /readyz included, are answered until then, so load balancers see the server drain.
+ */
+async function shutdown(server: Server, signal: string): Promise<void> {
+  if (getServerState() === "draining") {
+    return;
+  }
+
+  beginDraining();
+  logger.info("Shutting down", { signal, writesInFlight: getWritesInFlight() });
+
+  const drained = Promise.all([
+    waitForWrites(),
+    stopJobWorker(),
+    stopWebhookDelivery(),
+    stopRetentionSchedule(),
+  ]).then(() => true);
+  const timedOut = new Promise<boolean>((resolve) => {
+    setTimeout(() => resolve(false), config.shutdownTimeoutSeconds * 1000).unref();
+  });
+
+  if (!(await Promise.race([drained, timedOut]))) {
+    // The pool would wait for the connections still in use, so exit without closing it
+    logger.error("Shutdown timed out with work in flight", {
+      writesInFlight: getWritesInFlight(),
+      timeoutSeconds: config.shutdownTimeoutSeconds,
+    });
+    process.exit(1);
+  }
+
+  server.close();
+  server.closeAllConnections();
+  await pool.end();
+  logger.info("Shutdown complete");
+}
+
+const server = app.listen(port, () => {
+  logger.info("Sparti Service listening", { url: `http://localhost:${port}` });
 });
 
+// Deploys stop the process with SIGTERM; the same signal sent again kills it at once
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.once(signal, () => {
+    shutdown(server, signal).catch((error: unknown) => {
+      logger.error("Shutdown failed", { error });
+      process.exit(1);
+    });
+  });
+}
+
+// Serve the API only once the database schema matches this release's migrations
+(async (): Promise<void> => {
+  if (MIGRATE_ON_START) {
+    await runMigrations();
+  } else {
+    await assertSchemaCurrent();
+  }
+
+  markReady();
+  logger.info("Database schema is current, serving requests");
+
+  // Purge batches that have outlived the retention rules
+  startRetentionSchedule();
+
+  // Send queued webhook deliveries, retrying failed ones
+  startWebhookDelivery();
+
+  // Store uploads queued in async mode
+  startJobWorker();
+})().catch((error: unknown) => {
+  logger.error("Database schema is not ready, refusing to start", { error });
+  process.exitCode = 1;
+  server.close();
+  return pool.end();
+});
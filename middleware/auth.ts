@@ -0,0 +1,308 @@
+// API key authentication, HMAC request signing and scope checks
+import { createHmac, timingSafeEqual } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { findActiveApiKey, findActiveApiKeyById, touchApiKey } from "../db/apiKeys";
+import type { ApiKeyScope } from "../db/schema";
+import { asyncHandler } from "./errorHandler";
+import { getErrorMessage, sendErrorResponse } from "../utils/errors";
+import { streamedBodyFormat } from "../utils/ingest";
+import { logger } from "../utils/logger";
+import { config } from "../utils/config";
+
+/**
+ * Signature check of a streamed request body, completed by the handler that reads it
+ * - update: Feed the next chunk of the raw body
+ * - verify: Compare the digest once the body has been read; returns an error message or null
+ */
+export interface BodySignature {
+  update(chunk: Buffer): void;
+  verify(): string | null;
+}
+
+/**
+ * Maximum age of a signed request (seconds)
+ */
+const SIGNATURE_TOLERANCE_SECONDS = config.signatureToleranceSeconds;
+
+/**
+ * Signatures accepted within the tolerance window, with their expiry time
+ * A signature can only be used once, so a captured request cannot be replayed. The cache
+ * lives in this process's memory: with several processes, a replay sent to another one
+ * within the window is not caught.
+ */
+const seenSignatures = new Map<string, number>();
+
+/**
+ * Read the API key from the Authorization (Bearer) or X-API-Key header
+ */
+function extractApiKey(req: Request): string | null {
+  const authorization = req.header("Authorization");
+  if (authorization && authorization.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  return req.header("X-API-Key")?.trim() || null;
+}
+
+/**
+ * Read the ID from the X-API-Key-Id header, sent by signed requests instead of the key
+ * @returns The ID, NaN when the header is malformed, or null when it is absent
+ */
+function extractApiKeyId(req: Request): number | null {
+  const header = req.header("X-API-Key-Id")?.trim();
+  if (!header) {
+    return null;
+  }
+  return /^\d+$/.test(header) ? Number(header) : NaN;
+}
+
+/**
+ * Compute the expected signature of a request
+ * signature = hex(HMAC-SHA256(signingSecret, `${timestamp}.${method}.${originalUrl}.${rawBody}`))
+ * @param secret - The API key's signing secret
+ * @param timestamp - Value of the X-Signature-Timestamp header
+ * @param method - HTTP method, e.g. "POST"
+ * @param url - Path and query string the request was sent to, e.g. "/api/batches?limit=10"
+ * @param body - Raw request body ("" when there is none)
+ * @returns string
+ */
+export function signRequest(
+  secret: string,
+  timestamp: string,
+  method: string,
+  url: string,
+  body: Buffer | string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${method}.${url}.`)
+    .update(body)
+    .digest("hex");
+}
+
+/**
+ * Compute the signature of a webhook delivery
+ * signature = hex(HMAC-SHA256(secret, `${timestamp}.${body}`))
+ * @param secret - The webhook's secret
+ * @param timestamp - Value of the X-Signature-Timestamp header
+ * @param body - JSON body of the delivery
+ * @returns string
+ */
+export function signPayload(secret: string, timestamp: string, body: Buffer | string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.`).update(body).digest("hex");
+}
+
+/**
+ * Check whether a request carries a body, by its Content-Length or Transfer-Encoding header
+ */
+function hasBody(req: Request): boolean {
+  return req.header("Transfer-Encoding") !== undefined || (req.header("Content-Length") ?? "0") !== "0";
+}
+
+/**
+ * Drop expired entries from the replay cache
+ */
+function pruneSeenSignatures(now: number): void {
+  for (const [signature, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) {
+      seenSignatures.delete(signature);
+    }
+  }
+}
+
+/**
+ * Read the signature headers and check the timestamp
+ * @returns The timestamp and hex signature, or an error message
+ */
+function readSignatureHeaders(
+  req: Request
+): { timestamp: string; signature: string } | { error: string } {
+  const timestamp = req.header("X-Signature-Timestamp");
+  const signatureHeader = req.header("X-Signature");
+
+  if (!timestamp || !signatureHeader) {
+    return { error: "X-Signature and X-Signature-Timestamp headers are required for this API key" };
+  }
+
+  const timestampSeconds = parseInt(timestamp, 10);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  if (isNaN(timestampSeconds) || Math.abs(nowSeconds - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return {
+      error: `X-Signature-Timestamp must be within ${SIGNATURE_TOLERANCE_SECONDS} seconds of the server time`,
+    };
+  }
+
+  return { timestamp, signature: signatureHeader.replace(/^sha256=/, "") };
+}
+
+/**
+ * Compare a signature with the expected one and record it against replays
+ * @returns string | null - An error message, or null when the signature is valid
+ */
+function checkSignature(signature: string, expected: string): string | null {
+  const signatureBuffer = Buffer.from(signature, "hex");
+  const expectedBuffer = Buffer.from(expected, "hex");
+
+  if (
+    signatureBuffer.length !== expectedBuffer.length ||
+    !timingSafeEqual(signatureBuffer, expectedBuffer)
+  ) {
+    return "Invalid request signature";
+  }
+
+  const now = Date.now();
+  pruneSeenSignatures(now);
+
+  if (seenSignatures.has(expected)) {
+    return "Request signature has already been used";
+  }
+
+  seenSignatures.set(expected, now + SIGNATURE_TOLERANCE_SECONDS * 1000);
+  return null;
+}
+
+/**
+ * Check the X-Signature and X-Signature-Timestamp headers
+ * @returns string | null - An error message, or null when the signature is valid
+ */
+function verifySignature(req: Request, secret: string): string | null {
+  const headers = readSignatureHeaders(req);
+  if ("error" in headers) {
+    return headers.error;
+  }
+
+  // Only JSON bodies are kept raw; any other body cannot be checked against the signature
+  if (req.rawBody === undefined && hasBody(req)) {
+    return "Signed requests must send a JSON, CSV or NDJSON body";
+  }
+
+  return checkSignature(
+    headers.signature,
+    signRequest(secret, headers.timestamp, req.method, req.originalUrl, req.rawBody ?? "")
+  );
+}
+
+/**
+ * Start checking the signature of a streamed body
+ * The headers are checked now; the digest is fed by the upload handler as the body is
+ * read and compared once the whole body has arrived.
+ * @returns BodySignature, or an error message when the headers are unusable
+ */
+function startBodySignature(req: Request, secret: string): BodySignature | string {
+  const headers = readSignatureHeaders(req);
+  if ("error" in headers) {
+    return headers.error;
+  }
+
+  const hmac = createHmac("sha256", secret).update(
+    `${headers.timestamp}.${req.method}.${req.originalUrl}.`
+  );
+
+  return {
+    update(chunk: Buffer): void {
+      hmac.update(chunk);
+    },
+    verify(): string | null {
+      return checkSignature(headers.signature, hmac.digest("hex"));
+    },
+  };
+}
+
+/**
+ * Authentication middleware for /api routes
+ * Requires a valid, non-revoked API key, sent in a header or identified by X-API-Key-Id.
+ * A signature (keyed with the key's signing secret) is checked whenever one is sent, and is
+ * mandatory for keys identified by their ID and keys created with requireSignature.
+ */
+export const authenticate = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const key = extractApiKey(req);
+    const keyId = key ? null : extractApiKeyId(req);
+
+    if (!key && keyId === null) {
+      sendErrorResponse(
+        res,
+        "Authentication required",
+        "AUTHENTICATION_REQUIRED",
+        "Send an API key in the Authorization (Bearer) or X-API-Key header, or its ID in X-API-Key-Id with a request signature"
+      );
+      return;
+    }
+
+    const apiKey = key
+      ? await findActiveApiKey(key)
+      : Number.isSafeInteger(keyId)
+        ? await findActiveApiKeyById(keyId as number)
+        : null;
+
+    if (!apiKey) {
+      sendErrorResponse(res, "Invalid API key", "INVALID_API_KEY");
+      return;
+    }
+
+    // A key identified by its ID is only proven by the signature
+    if (keyId !== null || apiKey.requireSignature || req.header("X-Signature")) {
+      if (!apiKey.signingSecret) {
+        sendErrorResponse(
+          res,
+          "Invalid request signature",
+          "INVALID_SIGNATURE",
+          `API key ${apiKey.id} has no signing secret yet; issue one with POST /api/admin/api-keys/${apiKey.id}/signing-secret`
+        );
+        return;
+      }
+
+      // Streamed bodies have not been read yet, so their digest is checked by the upload handler
+      if (streamedBodyFormat(req)) {
+        const bodySignature = startBodySignature(req, apiKey.signingSecret);
+        if (typeof bodySignature === "string") {
+          sendErrorResponse(res, "Invalid request signature", "INVALID_SIGNATURE", bodySignature);
+          return;
+        }
+        req.bodySignature = bodySignature;
+      } else {
+        const signatureError = verifySignature(req, apiKey.signingSecret);
+        if (signatureError) {
+          sendErrorResponse(res, "Invalid request signature", "INVALID_SIGNATURE", signatureError);
+          return;
+        }
+      }
+    }
+
+    req.apiKey = apiKey;
+
+    touchApiKey(apiKey.id).catch((error: unknown) => {
+      logger.warn("Failed to record API key usage", { error: getErrorMessage(error) });
+    });
+
+    next();
+  }
+);
+
+/**
+ * Check whether an authenticated request carries a scope (admin implies every scope)
+ */
+export function hasScope(req: Request, scope: ApiKeyScope): boolean {
+  const scopes = req.apiKey?.scopes ?? [];
+  return scopes.includes(scope) || scopes.includes("admin");
+}
+
+/**
+ * Scope middleware: reject requests whose API key lacks the scope
+ * @param scope - Scope the route requires
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!hasScope(req, scope)) {
+      sendErrorResponse(
+        res,
+        "Insufficient scope",
+        "INSUFFICIENT_SCOPE",
+        `This API key does not have the "${scope}" scope`
+      );
+      return;
+    }
+
+    next();
+  };
+}
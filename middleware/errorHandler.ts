@@ -1,80 +1,162 @@
 // Express error handling middleware
 import { Request, Response, NextFunction } from "express";
-import { getErrorMessage, sendErrorResponse, isAppError } from "../utils/errors";
+import { databaseError, getErrorMessage, sendErrorResponse, isAppError } from "../utils/errors";
+import { isDatabaseError } from "../utils/errorCodes";
+import { logger } from "../utils/logger";
+import { config } from "../utils/config";
+
+/**
+ * Error raised by the body parsers (http-errors), identified by its type
+ */
+interface BodyParserError extends Error {
+  type: string;
+  status: number;
+}
+
+/**
+ * Check whether an error was raised while reading or parsing the request body
+ */
+function isBodyParserError(error: unknown): error is BodyParserError {
+  return (
+    error instanceof Error &&
+    typeof (error as Partial<BodyParserError>).type === "string" &&
+    typeof (error as Partial<BodyParserError>).status === "number"
+  );
+}
 
 /**
  * Global error handling middleware
- * Handles all errors gracefully without crashing the application
+ * Handles all errors gracefully without crashing the application. The response's code
+ * comes from the AppError, the body parser's error type or the database's SQLSTATE,
+ * never from the wording of the message.
  */
 export function errorHandler(
   err: unknown,
-  _req: Request,
+  req: Request,
   res: Response,
   _next: NextFunction
 ): void {
   // Log the error for debugging
   const errorMessage = getErrorMessage(err);
-  console.error("[testing] Unhandled error:", errorMessage);
+  logger.error("Unhandled error", { requestId: req.requestId, error: errorMessage });
 
   // Handle AppError instances
   if (isAppError(err)) {
-    sendErrorResponse(res, err.message, err.statusCode, err.message);
+    sendErrorResponse(res, err.message, err.code, err.message, err.details);
     return;
   }
 
-  // Handle known error types
-  if (err instanceof Error) {
-    // Check for request size errors
-    if (
-      errorMessage.includes("request entity too large") ||
-      errorMessage.includes("payload too large") ||
-      errorMessage.includes("too large")
-    ) {
+  // Handle errors raised while reading the request body
+  if (isBodyParserError(err)) {
+    if (err.type === "entity.too.large") {
       sendErrorResponse(
         res,
         "Request payload too large",
-        413,
-        "The request payload exceeds the maximum allowed size of 100MB. Please reduce the data size and try again."
+        "PAYLOAD_TOO_LARGE",
+        `The request payload exceeds the maximum allowed size of ${config.bodyLimit}. Please reduce the data size and try again.`
       );
       return;
     }
 
-    // Check for database connection errors
-    if (errorMessage.includes("ECONNREFUSED") || errorMessage.includes("connection")) {
-      sendErrorResponse(
-        res,
-        "Database connection failed",
-        503,
-        "Unable to connect to the database. Please check your database configuration."
-      );
+    if (err.type === "entity.parse.failed") {
+      sendErrorResponse(res, "Invalid JSON body", "INVALID_JSON", errorMessage);
       return;
     }
 
-    // Check for validation errors
-    if (errorMessage.includes("validation") || errorMessage.includes("invalid")) {
-      sendErrorResponse(res, "Validation error", 400, errorMessage);
+    if (err.status < 500) {
+      sendErrorResponse(res, errorMessage, "INVALID_REQUEST");
       return;
     }
   }
 
+  // Handle database errors that were not wrapped where they occurred
+  if (isDatabaseError(err)) {
+    const error = databaseError("Database error", err);
+    sendErrorResponse(res, error.message, error.code);
+    return;
+  }
+
   // Default error response for unknown errors
   sendErrorResponse(
     res,
     "Internal server error",
-    500,
+    "INTERNAL_ERROR",
     "An unexpected error occurred. Please try again later."
   );
 }
 
+/**
+ * Async handlers of a request that have not settled yet, and the callbacks waiting for
+ * the request to settle
+ */
+interface RequestHandlers {
+  running: number;
+  closed: boolean;
+  waiters: (() => void)[];
+}
+
+const requestHandlers = new WeakMap<Request, RequestHandlers>();
+
+/**
+ * Get the handler tracking of a request, starting it on first use
+ */
+function trackHandlers(req: Request, res: Response): RequestHandlers {
+  let handlers = requestHandlers.get(req);
+  if (!handlers) {
+    const tracked: RequestHandlers = { running: 0, closed: false, waiters: [] };
+    res.on("close", () => {
+      tracked.closed = true;
+      settleHandlers(tracked);
+    });
+    requestHandlers.set(req, tracked);
+    handlers = tracked;
+  }
+  return handlers;
+}
+
+/**
+ * Call the waiters once the response has closed and no handler is running
+ */
+function settleHandlers(handlers: RequestHandlers): void {
+  if (handlers.closed && handlers.running === 0) {
+    const waiters = handlers.waiters;
+    handlers.waiters = [];
+    waiters.forEach((waiter) => waiter());
+  }
+}
+
+/**
+ * Call back once a request is finished with: its response has closed and every async
+ * handler it went through has settled
+ * A client that disconnects closes the response early, but the handler may still be
+ * writing; the callback waits for it either way.
+ * @param req - The request
+ * @param res - Its response
+ * @param callback - Called once
+ */
+export function onRequestSettled(req: Request, res: Response, callback: () => void): void {
+  const handlers = trackHandlers(req, res);
+  handlers.waiters.push(callback);
+  settleHandlers(handlers);
+}
+
 /**
  * Async error handler wrapper
- * Wraps async route handlers to catch errors and pass them to error middleware
+ * Wraps async route handlers to catch errors and pass them to error middleware, and
+ * tracks them until they settle (see onRequestSettled)
  */
 export function asyncHandler(
   fn: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
 ) {
   return (req: Request, res: Response, next: NextFunction): void => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+    const handlers = trackHandlers(req, res);
+    handlers.running++;
+
+    Promise.resolve(fn(req, res, next))
+      .catch(next)
+      .finally(() => {
+        handlers.running--;
+        settleHandlers(handlers);
+      });
   };
 }
-
@@ -0,0 +1,169 @@
+// Idempotency-Key support for requests that create batches
+import { Request, Response, NextFunction } from "express";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  renewIdempotencyKey,
+} from "../db/idempotency";
+import { asyncHandler, onRequestSettled } from "./errorHandler";
+import { getErrorMessage, sendErrorResponse } from "../utils/errors";
+import { hashJson } from "../utils/hash";
+import { streamedBodyFormat } from "../utils/ingest";
+import { logger } from "../utils/logger";
+import { config } from "../utils/config";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * How long a key stays bound to its first response (hours)
+ */
+const IDEMPOTENCY_WINDOW_HOURS = config.idempotencyWindowHours;
+
+/**
+ * How long a claimed key holds without being renewed (seconds)
+ * A retry takes over a key whose request stopped renewing it, e.g. because the process died
+ */
+const LEASE_SECONDS = 2 * 60;
+
+/**
+ * How often a running request renews its lease (seconds)
+ */
+const LEASE_RENEW_SECONDS = 30;
+
+/**
+ * Pull the batch ID out of a response body, if it carries one
+ * (in the data of a success response or the details of an error response)
+ */
+function extractBatchId(body: unknown): number | null {
+  const { data, details } =
+    (body as { data?: { batchId?: unknown }; details?: { batchId?: unknown } } | null) ?? {};
+  const batchId = data?.batchId ?? details?.batchId;
+  return typeof batchId === "number" ? batchId : null;
+}
+
+/**
+ * Idempotency middleware
+ * A request carrying an Idempotency-Key header runs once per key within the window.
+ * Repeats with the same payload get the stored response back without running the handler,
+ * and repeats with a different payload get a 409. Server errors release the key so the
+ * client can retry, and a key whose request died holding it is taken over once its lease
+ * runs out.
+ */
+export const idempotency = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header("Idempotency-Key");
+
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    if (key.trim() === "" || key.length > MAX_KEY_LENGTH) {
+      sendErrorResponse(
+        res,
+        `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+        "INVALID_REQUEST"
+      );
+      return;
+    }
+
+    // Streamed bodies are only read by the handler, after the key would have been claimed,
+    // so a repeat with a different body could not be told apart from a true retry
+    if (streamedBodyFormat(req)) {
+      sendErrorResponse(
+        res,
+        "Idempotency-Key is not supported for CSV or NDJSON bodies",
+        "INVALID_REQUEST",
+        "Send the rows as JSON, or upload them in chunks with an upload session"
+      );
+      return;
+    }
+
+    // Keys are namespaced per API key, so two clients can never collide
+    const storedKey = `${req.apiKey?.id ?? "anonymous"}:${key}`;
+    const requestHash = hashJson({
+      path: `${req.baseUrl}${req.path}`,
+      body: req.body,
+      query: req.query,
+    });
+    const claim = await claimIdempotencyKey(
+      storedKey,
+      requestHash,
+      IDEMPOTENCY_WINDOW_HOURS,
+      LEASE_SECONDS
+    );
+
+    if (claim.state === "mismatch") {
+      sendErrorResponse(
+        res,
+        "Idempotency-Key was already used with a different payload",
+        "IDEMPOTENCY_KEY_REUSED"
+      );
+      return;
+    }
+
+    if (claim.state === "in_progress") {
+      sendErrorResponse(
+        res,
+        "A request with this Idempotency-Key is still being processed",
+        "IDEMPOTENCY_KEY_IN_PROGRESS",
+        "Retry once the original request has finished"
+      );
+      return;
+    }
+
+    if (claim.state === "replay") {
+      logger.info("Replaying stored response for Idempotency-Key", { idempotencyKey: key });
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(claim.record.statusCode ?? 200).json(claim.record.response);
+      return;
+    }
+
+    // First use of the key: hold the lease until the handler has finished, even when the
+    // client has disconnected (its retry must not run the upload a second time meanwhile)
+    const { token } = claim;
+    const renewal = setInterval(() => {
+      renewIdempotencyKey(storedKey, token, LEASE_SECONDS).catch((error: unknown) => {
+        logger.warn("Failed to renew Idempotency-Key lease", { error: getErrorMessage(error) });
+      });
+    }, LEASE_RENEW_SECONDS * 1000);
+    renewal.unref();
+    onRequestSettled(req, res, () => clearInterval(renewal));
+
+    // Store the response before it is sent
+    const sendJson = res.json.bind(res);
+    res.json = (body: unknown): Response => {
+      const persist =
+        res.statusCode >= 500
+          ? releaseIdempotencyKey(storedKey, token)
+          : completeIdempotencyKey(
+              storedKey,
+              token,
+              res.statusCode,
+              body,
+              extractBatchId(body)
+            ).then((completed) => {
+              if (!completed) {
+                logger.warn("Idempotency-Key was taken over before the response was stored", {
+                  idempotencyKey: key,
+                });
+              }
+            });
+
+      persist
+        .catch((error: unknown) => {
+          logger.error("Failed to record idempotent response", {
+            error: getErrorMessage(error),
+          });
+        })
+        .finally(() => {
+          sendJson(body);
+        });
+
+      return res;
+    };
+
+    next();
+  }
+);
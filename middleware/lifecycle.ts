@@ -0,0 +1,93 @@
+// Server lifecycle: refusing API requests until the schema is checked, and draining writes on shutdown
+import { Request, Response, NextFunction } from "express";
+import { onRequestSettled } from "./errorHandler";
+import { sendErrorResponse } from "../utils/errors";
+
+/**
+ * Lifecycle states of the server
+ * - starting: the database schema is being checked; API requests are refused
+ * - ready: serving traffic
+ * - draining: shutting down; writes in flight (uploads included) finish, new ones are refused
+ */
+export type ServerState = "starting" | "ready" | "draining";
+
+let state: ServerState = "starting";
+let writesInFlight = 0;
+// Resolvers of waitForWrites calls, settled when the last write in flight ends
+let drainWaiters: (() => void)[] = [];
+
+/**
+ * Get the current lifecycle state
+ */
+export function getServerState(): ServerState {
+  return state;
+}
+
+/**
+ * Start serving API requests, once the database schema is known to be current
+ */
+export function markReady(): void {
+  if (state === "starting") {
+    state = "ready";
+  }
+}
+
+/**
+ * Stop accepting writes; the ones in flight carry on
+ */
+export function beginDraining(): void {
+  state = "draining";
+}
+
+/**
+ * Number of write requests being handled
+ */
+export function getWritesInFlight(): number {
+  return writesInFlight;
+}
+
+/**
+ * Resolve once no write request is in flight
+ */
+export function waitForWrites(): Promise<void> {
+  if (writesInFlight === 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => drainWaiters.push(resolve));
+}
+
+/**
+ * Lifecycle gate middleware for the API
+ * Refuses every request with 503 while the server is starting, and writes (anything but
+ * GET and HEAD) while it drains. Writes let through are counted until their response has
+ * closed and their handler has finished: a client that disconnects closes the response,
+ * but the upload it started is still being written.
+ */
+export function acceptRequests(req: Request, res: Response, next: NextFunction): void {
+  const isRead = req.method === "GET" || req.method === "HEAD";
+
+  if (state === "starting" || (state === "draining" && !isRead)) {
+    const draining = state === "draining";
+    res.setHeader("Retry-After", "5");
+    sendErrorResponse(
+      res,
+      draining ? "Server is shutting down" : "Server is starting",
+      draining ? "SHUTTING_DOWN" : "NOT_READY",
+      "Retry the request in a few seconds."
+    );
+    return;
+  }
+
+  if (!isRead) {
+    writesInFlight++;
+    onRequestSettled(req, res, () => {
+      writesInFlight--;
+      if (writesInFlight === 0) {
+        drainWaiters.forEach((resolve) => resolve());
+        drainWaiters = [];
+      }
+    });
+  }
+
+  next();
+}
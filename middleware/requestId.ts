@@ -0,0 +1,43 @@
+// Request IDs, for matching an error response or a log line to the request it came from
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { logger, withLogContext } from "../utils/logger";
+
+// A client-supplied X-Request-Id is kept when it looks like an ID; otherwise one is generated
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Request ID middleware
+ * Every request gets an ID, taken from its X-Request-Id header or generated, which is
+ * sent back in the X-Request-Id response header and in error responses. A line is
+ * logged when the response has been sent.
+ */
+export function requestId(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.header("X-Request-Id");
+  const id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const started = process.hrtime.bigint();
+
+  req.requestId = id;
+  res.setHeader("X-Request-Id", id);
+  res.on("finish", () => {
+    logger.info("Request finished", {
+      requestId: id,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - started) / 1e6),
+    });
+  });
+
+  next();
+}
+
+/**
+ * Request log context middleware
+ * Lines logged while handling the request, down to the insert loops, carry its ID.
+ * Mounted after the body parsers, which do not keep the context of the middleware
+ * before them.
+ */
+export function requestLogContext(req: Request, _res: Response, next: NextFunction): void {
+  withLogContext({ requestId: req.requestId }, next);
+}
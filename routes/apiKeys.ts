@@ -0,0 +1,89 @@
+// Routes for managing API keys (admin scope)
+import { Router, Request, Response } from "express";
+import { createApiKey, listApiKeys, revokeApiKey, rotateSigningSecret } from "../db/apiKeys";
+import { asyncHandler } from "../middleware/errorHandler";
+import { AppError, sendSuccessResponse } from "../utils/errors";
+import { optionalBoolean, parseApiKeyScopes, requirePositiveInt } from "../utils/validation";
+
+const router = Router();
+
+// List every API key (hashes and signing secrets are never returned)
+router.get(
+  "/",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const apiKeys = await listApiKeys();
+
+    sendSuccessResponse(
+      res,
+      {
+        count: apiKeys.length,
+        apiKeys,
+      },
+      200
+    );
+  })
+);
+
+// Create an API key; the plaintext key and signing secret are only included in this response
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    if (typeof body.name !== "string" || body.name.trim() === "") {
+      throw new AppError("name must be a non-empty string", "INVALID_REQUEST");
+    }
+
+    const scopes = parseApiKeyScopes(body.scopes);
+    const requireSignature = optionalBoolean(body.requireSignature, "requireSignature") ?? false;
+
+    const { apiKey, key, signingSecret } = await createApiKey(
+      body.name.trim(),
+      scopes,
+      requireSignature
+    );
+
+    sendSuccessResponse(
+      res,
+      {
+        apiKey,
+        key,
+        signingSecret,
+      },
+      201,
+      "API key created. Store the key and signing secret now: they cannot be retrieved again."
+    );
+  })
+);
+
+// Issue a new signing secret for a key; the previous one stops working
+router.post(
+  "/:id/signing-secret",
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = requirePositiveInt(req.params.id, "id");
+    const { apiKey, signingSecret } = await rotateSigningSecret(id);
+
+    sendSuccessResponse(
+      res,
+      {
+        apiKey,
+        signingSecret,
+      },
+      200,
+      "Signing secret issued. Store it now: it cannot be retrieved again."
+    );
+  })
+);
+
+// Revoke an API key
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = requirePositiveInt(req.params.id, "id");
+    const apiKey = await revokeApiKey(id);
+
+    sendSuccessResponse(res, apiKey, 200, `API key ${id} revoked`);
+  })
+);
+
+export default router;
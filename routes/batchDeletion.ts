@@ -0,0 +1,63 @@
+// Batch deletion and restore handlers, shared by the batch ID and dataset-scoped routes
+import { Request, Response } from "express";
+import { getBatchByNumber, restoreBatch, softDeleteBatch } from "../db/batches";
+import { getDataset } from "../db/datasets";
+import { asyncHandler } from "../middleware/errorHandler";
+import { sendErrorResponse, sendSuccessResponse } from "../utils/errors";
+import { requirePositiveInt } from "../utils/validation";
+import { logger } from "../utils/logger";
+
+/**
+ * Resolve the batch ID named by :batchId, or by :dataset and :batchNumber
+ * @returns Promise<number | null> - null when the dataset has no such batch
+ */
+async function resolveBatchId(req: Request): Promise<number | null> {
+  const params = req.params as { batchId?: string; dataset?: string; batchNumber?: string };
+
+  if (!params.dataset) {
+    return requirePositiveInt(params.batchId, "batchId");
+  }
+
+  const dataset = await getDataset(params.dataset);
+  const batchNumber = requirePositiveInt(params.batchNumber, "batchNumber");
+  const batch = await getBatchByNumber(dataset.id, batchNumber);
+  return batch?.id ?? null;
+}
+
+/**
+ * Soft-delete a batch; it can be restored until the retention job purges it
+ */
+export const deleteBatchHandler = asyncHandler(async (req: Request, res: Response) => {
+  const batchId = await resolveBatchId(req);
+
+  // Early return if the batch does not exist
+  if (batchId === null) {
+    sendErrorResponse(res, "Batch not found", "BATCH_NOT_FOUND");
+    return;
+  }
+
+  const batch = await softDeleteBatch(batchId);
+
+  logger.info("Deleted batch", { batchId: batch.id });
+
+  sendSuccessResponse(res, batch, 200, `Batch ${batch.id} deleted`);
+});
+
+/**
+ * Restore a soft-deleted batch that has not been purged yet
+ */
+export const restoreBatchHandler = asyncHandler(async (req: Request, res: Response) => {
+  const batchId = await resolveBatchId(req);
+
+  // Early return if the batch does not exist
+  if (batchId === null) {
+    sendErrorResponse(res, "Batch not found", "BATCH_NOT_FOUND");
+    return;
+  }
+
+  const batch = await restoreBatch(batchId);
+
+  logger.info("Restored batch", { batchId: batch.id });
+
+  sendSuccessResponse(res, batch, 200, `Batch ${batch.id} restored`);
+});
@@ -0,0 +1,84 @@
+// Routes for managing datasets (admin scope)
+import { Router, Request, Response } from "express";
+import { createDataset, getDataset, listDatasets, setDatasetSchema } from "../db/datasets";
+import { asyncHandler } from "../middleware/errorHandler";
+import { AppError, sendSuccessResponse } from "../utils/errors";
+import { optionalBoolean } from "../utils/validation";
+
+const router = Router();
+
+// List every dataset
+router.get(
+  "/",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const datasets = await listDatasets();
+
+    sendSuccessResponse(
+      res,
+      {
+        count: datasets.length,
+        datasets,
+      },
+      200
+    );
+  })
+);
+
+// Create a dataset
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    if (typeof body.slug !== "string") {
+      throw new AppError("slug must be a string", "INVALID_REQUEST");
+    }
+
+    if (body.description !== undefined && typeof body.description !== "string") {
+      throw new AppError("description must be a string", "INVALID_REQUEST");
+    }
+
+    const dataset = await createDataset(body.slug, body.description);
+
+    sendSuccessResponse(res, dataset, 201, `Dataset ${dataset.slug} created`);
+  })
+);
+
+// Fetch one dataset
+router.get(
+  "/:dataset",
+  asyncHandler(async (req: Request, res: Response) => {
+    const dataset = await getDataset(req.params.dataset);
+
+    sendSuccessResponse(res, dataset, 200);
+  })
+);
+
+// Register or replace the row schema that uploads to the dataset are validated against
+router.put(
+  "/:dataset/schema",
+  asyncHandler(async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    if (body.schema === undefined || body.schema === null) {
+      throw new AppError("schema is required", "INVALID_REQUEST");
+    }
+
+    const strict = optionalBoolean(body.strict, "strict") ?? false;
+    const dataset = await setDatasetSchema(req.params.dataset, body.schema, strict);
+
+    sendSuccessResponse(res, dataset, 200, `Row schema of ${dataset.slug} updated`);
+  })
+);
+
+// Remove the row schema, accepting rows of any shape again
+router.delete(
+  "/:dataset/schema",
+  asyncHandler(async (req: Request, res: Response) => {
+    const dataset = await setDatasetSchema(req.params.dataset, null);
+
+    sendSuccessResponse(res, dataset, 200, `Row schema of ${dataset.slug} removed`);
+  })
+);
+
+export default router;
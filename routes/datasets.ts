@@ -0,0 +1,146 @@
+// Dataset-scoped routes: uploads, upload sessions, batch listings, deletion and current records
+import { Router, Request, Response } from "express";
+import {
+  fetchBatchData,
+  getBatchByNumber,
+  isReadableBatch,
+  listBatches,
+  narrowsRows,
+} from "../db";
+import { listCurrentRecords } from "../db/currentRecords";
+import { getDataset } from "../db/datasets";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requireScope } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { sendErrorResponse, sendSuccessResponse } from "../utils/errors";
+import {
+  parseBatchListFilters,
+  parseBatchRowQuery,
+  parseCurrentRecordFilters,
+  requirePositiveInt,
+} from "../utils/validation";
+import { uploadSheetData } from "./uploads";
+import { exportBatch } from "./exports";
+import { diffBatches } from "./diffs";
+import { deleteBatchHandler, restoreBatchHandler } from "./batchDeletion";
+import { listRejectionsHandler, replayRejectionsHandler } from "./rejections";
+import uploadSessionsRouter from "./uploadSessions";
+
+const router = Router();
+
+// Upload rows to a dataset
+router.post("/:dataset/uploads", requireScope("upload"), idempotency, uploadSheetData);
+
+// Upload sessions that write to a dataset
+router.use("/:dataset/upload-sessions", requireScope("upload"), uploadSessionsRouter);
+
+// List a dataset's batches
+router.get(
+  "/:dataset/batches",
+  requireScope("read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const dataset = await getDataset(req.params.dataset);
+    const filters = parseBatchListFilters(req.query as Record<string, unknown>);
+    const { batches, nextCursor } = await listBatches({ ...filters, datasetId: dataset.id });
+
+    sendSuccessResponse(
+      res,
+      {
+        dataset: dataset.slug,
+        count: batches.length,
+        batches,
+        nextCursor,
+      },
+      200
+    );
+  })
+);
+
+// List the current state of the dataset's keyed sources
+router.get(
+  "/:dataset/current-records",
+  requireScope("read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const dataset = await getDataset(req.params.dataset);
+    const filters = parseCurrentRecordFilters(req.query as Record<string, unknown>);
+    const { records, nextCursor } = await listCurrentRecords({ ...filters, datasetId: dataset.id });
+
+    sendSuccessResponse(
+      res,
+      {
+        dataset: dataset.slug,
+        count: records.length,
+        records,
+        nextCursor,
+      },
+      200
+    );
+  })
+);
+
+// Fetch the rows of a batch by its number within the dataset
+router.get(
+  "/:dataset/batches/:batchNumber",
+  requireScope("read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const dataset = await getDataset(req.params.dataset);
+    const batchNumber = requirePositiveInt(req.params.batchNumber, "batchNumber");
+    const query = parseBatchRowQuery(req.query as Record<string, unknown>);
+    const batch = await getBatchByNumber(dataset.id, batchNumber);
+    const { rows, nextCursor } = isReadableBatch(batch)
+      ? await fetchBatchData(batch.id, query)
+      : { rows: [], nextCursor: null };
+
+    // Early return if no data found (an empty page of a filtered query is still a result)
+    if (!isReadableBatch(batch) || (rows.length === 0 && !narrowsRows(query))) {
+      sendErrorResponse(
+        res,
+        `No data found for batch ${batchNumber} in dataset: ${dataset.slug}`,
+        "BATCH_NOT_FOUND"
+      );
+      return;
+    }
+
+    sendSuccessResponse(
+      res,
+      {
+        dataset: dataset.slug,
+        batchNumber,
+        batchId: batch.id,
+        count: rows.length,
+        data: rows,
+        nextCursor,
+      },
+      200
+    );
+  })
+);
+
+// Soft-delete a batch of the dataset, or restore it before it is purged
+router.delete("/:dataset/batches/:batchNumber", requireScope("admin"), deleteBatchHandler);
+router.post("/:dataset/batches/:batchNumber/restore", requireScope("admin"), restoreBatchHandler);
+
+// Download a batch of the dataset as CSV, NDJSON or JSON
+router.get("/:dataset/batches/:batchNumber/export", requireScope("read"), exportBatch);
+
+// List the rejected rows of a batch of the dataset, and replay them into it
+router.get(
+  "/:dataset/batches/:batchNumber/rejections",
+  requireScope("read"),
+  listRejectionsHandler
+);
+router.post(
+  "/:dataset/batches/:batchNumber/rejections/replay",
+  requireScope("read"),
+  requireScope("upload"),
+  replayRejectionsHandler
+);
+
+// Compare two batches of the dataset, matching rows on a key column
+router.get(
+  "/:dataset/batches/:batchNumber/diff/:otherBatchNumber",
+  requireScope("read"),
+  diffBatches
+);
+
+export default router;
@@ -0,0 +1,67 @@
+// Batch comparison handler, shared by the batch ID and dataset-scoped diff routes
+import { Request, Response } from "express";
+import { getBatch, getBatchByNumber, isReadableBatch } from "../db/batches";
+import { fetchBatchDiff } from "../db/batchDiff";
+import { getDataset } from "../db/datasets";
+import { asyncHandler } from "../middleware/errorHandler";
+import { sendErrorResponse, sendSuccessResponse } from "../utils/errors";
+import { parseBatchDiffQuery, requirePositiveInt } from "../utils/validation";
+import { logger } from "../utils/logger";
+
+/**
+ * Return the rows added, removed and modified between two batches, matched on ?key=
+ * The batches are named by :batchId and :otherBatchId, or by :dataset with :batchNumber
+ * and :otherBatchNumber; the first is treated as the older one.
+ */
+export const diffBatches = asyncHandler(async (req: Request, res: Response) => {
+  const params = req.params as {
+    batchId?: string;
+    otherBatchId?: string;
+    dataset?: string;
+    batchNumber?: string;
+    otherBatchNumber?: string;
+  };
+  const query = parseBatchDiffQuery(req.query as Record<string, unknown>);
+
+  const datasetId = params.dataset ? (await getDataset(params.dataset)).id : null;
+  const [from, to] = await Promise.all(
+    datasetId !== null
+      ? [
+          getBatchByNumber(datasetId, requirePositiveInt(params.batchNumber, "batchNumber")),
+          getBatchByNumber(datasetId, requirePositiveInt(params.otherBatchNumber, "otherBatchNumber")),
+        ]
+      : [
+          getBatch(requirePositiveInt(params.batchId, "batchId")),
+          getBatch(requirePositiveInt(params.otherBatchId, "otherBatchId")),
+        ]
+  );
+
+  // Early return if either batch cannot be read
+  if (!isReadableBatch(from) || !isReadableBatch(to)) {
+    sendErrorResponse(res, "Batch not found", "BATCH_NOT_FOUND");
+    return;
+  }
+
+  const { changes, nextCursor, summary } = await fetchBatchDiff(from.id, to.id, query);
+
+  logger.info("Compared batches", {
+    fromBatchId: from.id,
+    toBatchId: to.id,
+    key: query.key,
+    changes: changes.length,
+  });
+
+  sendSuccessResponse(
+    res,
+    {
+      from: { batchId: from.id, batchNumber: from.batchNumber },
+      to: { batchId: to.id, batchNumber: to.batchNumber },
+      key: query.key,
+      summary,
+      count: changes.length,
+      changes,
+      nextCursor,
+    },
+    200
+  );
+});
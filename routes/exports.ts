@@ -0,0 +1,54 @@
+// Batch export handler, shared by the batch ID and dataset-scoped export routes
+import { Request, Response } from "express";
+import { pipeline } from "stream";
+import { getBatch, getBatchByNumber, isReadableBatch } from "../db/batches";
+import { getBatchColumns, streamBatchRows } from "../db/batchExport";
+import { getDataset } from "../db/datasets";
+import { asyncHandler } from "../middleware/errorHandler";
+import { getErrorMessage, sendErrorResponse } from "../utils/errors";
+import { createExportTransform, EXPORT_CONTENT_TYPES } from "../utils/export";
+import { parseBatchRowQuery, parseExportFormat, requirePositiveInt } from "../utils/validation";
+import { logger } from "../utils/logger";
+
+/**
+ * Stream every row of a batch as CSV, NDJSON or a JSON array
+ * The batch is named by :batchId, or by :dataset and :batchNumber.
+ * Rows are read from a database cursor and written as they arrive, so memory use does
+ * not grow with the batch. The filter, sort and fields parameters of
+ * GET /api/batch/:batchId apply; limit and cursor do not.
+ */
+export const exportBatch = asyncHandler(async (req: Request, res: Response) => {
+  const params = req.params as { batchId?: string; dataset?: string; batchNumber?: string };
+  const format = parseExportFormat(req.query.format);
+  const { fields, sort, filters } = parseBatchRowQuery(req.query as Record<string, unknown>);
+  const query = { fields, sort, filters };
+
+  const batch = params.dataset
+    ? await getBatchByNumber(
+        (await getDataset(params.dataset)).id,
+        requirePositiveInt(params.batchNumber, "batchNumber")
+      )
+    : await getBatch(requirePositiveInt(params.batchId, "batchId"));
+
+  // Early return if the batch cannot be read
+  if (!isReadableBatch(batch)) {
+    sendErrorResponse(res, "Batch not found", "BATCH_NOT_FOUND");
+    return;
+  }
+
+  const columns = fields ?? (await getBatchColumns(batch));
+  const rows = await streamBatchRows(batch.id, query);
+
+  logger.info("Exporting batch", { batchId: batch.id, format });
+
+  res.status(200);
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="batch-${batch.id}.${format}"`);
+
+  // Once streaming has started the status is sent, so a failure can only cut the response short
+  pipeline(rows, createExportTransform(format, columns), res, (error) => {
+    if (error) {
+      logger.error("Export ended early", { batchId: batch.id, error: getErrorMessage(error) });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+// Rejected row handlers, shared by the batch ID and dataset-scoped routes
+import { Request, Response } from "express";
+import { getBatch, getBatchByNumber, isReadableBatch } from "../db/batches";
+import { getDataset } from "../db/datasets";
+import { listRejectedRows, replayRejectedRows } from "../db/rejectedRows";
+import type { Batch } from "../db/schema";
+import { asyncHandler } from "../middleware/errorHandler";
+import { sendErrorResponse, sendSuccessResponse } from "../utils/errors";
+import {
+  parseRejectedRowFilters,
+  parseRejectionReplay,
+  requirePositiveInt,
+} from "../utils/validation";
+
+/**
+ * Resolve the batch named by :batchId, or by :dataset and :batchNumber
+ * @returns Promise<Batch | null> - null when there is no such batch
+ */
+async function resolveBatch(req: Request): Promise<Batch | null> {
+  const params = req.params as { batchId?: string; dataset?: string; batchNumber?: string };
+
+  if (!params.dataset) {
+    return getBatch(requirePositiveInt(params.batchId, "batchId"));
+  }
+
+  const dataset = await getDataset(params.dataset);
+  return getBatchByNumber(dataset.id, requirePositiveInt(params.batchNumber, "batchNumber"));
+}
+
+/**
+ * List the rows of a batch that failed and have not been stored by a replay
+ */
+export const listRejectionsHandler = asyncHandler(async (req: Request, res: Response) => {
+  const filters = parseRejectedRowFilters(req.query as Record<string, unknown>);
+  const batch = await resolveBatch(req);
+
+  // Early return if the batch cannot be read
+  if (!isReadableBatch(batch)) {
+    sendErrorResponse(res, "Batch not found", "BATCH_NOT_FOUND");
+    return;
+  }
+
+  const { rejections, nextCursor } = await listRejectedRows(batch.id, filters);
+
+  sendSuccessResponse(
+    res,
+    {
+      batchId: batch.id,
+      count: rejections.length,
+      rejections,
+      nextCursor,
+    },
+    200
+  );
+});
+
+/**
+ * Attempt a batch's rejected rows again, optionally with corrected data
+ * 200 when every replayed row was stored, 207 when some were rejected again
+ */
+export const replayRejectionsHandler = asyncHandler(async (req: Request, res: Response) => {
+  const replay = parseRejectionReplay((req.body ?? {}) as Record<string, unknown>);
+  const batch = await resolveBatch(req);
+
+  // Early return if the batch cannot be read
+  if (!isReadableBatch(batch)) {
+    sendErrorResponse(res, "Batch not found", "BATCH_NOT_FOUND");
+    return;
+  }
+
+  const result = await replayRejectedRows(batch, replay);
+
+  sendSuccessResponse(
+    res,
+    {
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      status: result.batch.status,
+      replayed: result.replayed,
+      inserted: result.inserted,
+      errorCount: result.errors.length,
+      errors: result.errors,
+      currentRecords: result.currentRecords,
+    },
+    result.errors.length > 0 ? 207 : 200,
+    `Replayed ${result.replayed} rows: ${result.inserted} stored, ` +
+      `${result.errors.length} rejected again`
+  );
+});
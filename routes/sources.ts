@@ -0,0 +1,87 @@
+// Routes for managing per-source upload settings
+import { Router, Request, Response } from "express";
+import { getSource, listSources, upsertSource } from "../db/sources";
+import { asyncHandler } from "../middleware/errorHandler";
+import { sendErrorResponse, sendSuccessResponse } from "../utils/errors";
+import {
+  optionalBoolean,
+  parseColumnTypes,
+  parseDateOrder,
+  parseKeyColumn,
+  parseRetentionRule,
+  parseTimezone,
+  parseUploadMode,
+} from "../utils/validation";
+
+const router = Router();
+
+// List every configured source
+router.get(
+  "/",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const sources = await listSources();
+
+    sendSuccessResponse(
+      res,
+      {
+        count: sources.length,
+        sources,
+      },
+      200
+    );
+  })
+);
+
+// Fetch the settings for one spreadsheet
+router.get(
+  "/:spreadsheetId",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { spreadsheetId } = req.params as { spreadsheetId: string };
+    const source = await getSource(spreadsheetId);
+
+    if (!source) {
+      sendErrorResponse(
+        res,
+        `No settings found for spreadsheet: ${spreadsheetId}`,
+        "SOURCE_NOT_FOUND"
+      );
+      return;
+    }
+
+    sendSuccessResponse(res, source, 200);
+  })
+);
+
+// Create or update the settings for one spreadsheet
+router.put(
+  "/:spreadsheetId",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { spreadsheetId } = req.params as { spreadsheetId: string };
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const uploadMode = parseUploadMode(body.uploadMode);
+    const dedupe = optionalBoolean(body.dedupe, "dedupe");
+    const columnTypes = parseColumnTypes(body.columnTypes);
+    const timezone = parseTimezone(body.timezone);
+    const dateOrder = parseDateOrder(body.dateOrder);
+    const keyColumn = parseKeyColumn(body.keyColumn);
+    const deleteMissing = optionalBoolean(body.deleteMissing, "deleteMissing");
+    const retainBatches = parseRetentionRule(body.retainBatches, "retainBatches");
+    const retainDays = parseRetentionRule(body.retainDays, "retainDays");
+
+    const source = await upsertSource(spreadsheetId, {
+      uploadMode,
+      dedupe,
+      columnTypes,
+      timezone,
+      dateOrder,
+      keyColumn,
+      deleteMissing,
+      retainBatches,
+      retainDays,
+    });
+
+    sendSuccessResponse(res, source, 200, `Settings saved for spreadsheet: ${spreadsheetId}`);
+  })
+);
+
+export default router;
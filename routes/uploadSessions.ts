@@ -0,0 +1,194 @@
+// Routes for multi-request upload sessions
+// Mounted both at /api/upload-sessions (default dataset) and /api/datasets/:dataset/upload-sessions
+import { Router, Request, Response, NextFunction } from "express";
+import {
+  openUploadSession,
+  getUploadSession,
+  appendUploadChunk,
+  commitUploadSession,
+  abortUploadSession,
+} from "../db/uploadSessions";
+import { getDataset, DEFAULT_DATASET_SLUG } from "../db/datasets";
+import { hasScope } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorHandler";
+import { sendErrorResponse, sendSuccessResponse } from "../utils/errors";
+import { optionalPositiveInt, parseBatchSource, requirePositiveInt } from "../utils/validation";
+import type { SheetDataRow } from "../types";
+import type { Dataset } from "../db/schema";
+
+const router = Router({ mergeParams: true });
+
+/**
+ * Resolve the dataset named in the mount path, or the default dataset
+ */
+function resolveDataset(req: Request): Promise<Dataset> {
+  const slug = (req.params as { dataset?: string }).dataset ?? DEFAULT_DATASET_SLUG;
+  return getDataset(slug);
+}
+
+// Sessions are only reachable through the dataset they upload to, and by the API key that
+// opened them (or an admin key); batch IDs are sequential, so they are easy to guess
+router.param(
+  "batchId",
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const batchId = requirePositiveInt(req.params.batchId, "batchId");
+    const [dataset, session] = await Promise.all([
+      resolveDataset(req),
+      getUploadSession(batchId),
+    ]);
+
+    const ownsSession = session.batch.apiKeyId === req.apiKey?.id || hasScope(req, "admin");
+    if (session.batch.datasetId !== dataset.id || !ownsSession) {
+      sendErrorResponse(
+        res,
+        `Upload session ${batchId} not found in dataset: ${dataset.slug}`,
+        "UPLOAD_SESSION_NOT_FOUND"
+      );
+      return;
+    }
+
+    next();
+  })
+);
+
+// Open a session and allocate its batch ID
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const source = parseBatchSource(body);
+    const expectedRows = optionalPositiveInt(body.expectedRows, "expectedRows");
+    const dataset = await resolveDataset(req);
+
+    const batch = await openUploadSession(dataset.id, source, expectedRows, req.apiKey?.id);
+
+    sendSuccessResponse(
+      res,
+      {
+        batchId: batch.id,
+        dataset: dataset.slug,
+        batchNumber: batch.batchNumber,
+        status: batch.status,
+        nextChunkNumber: 1,
+      },
+      201,
+      `Upload session ${batch.id} opened`
+    );
+  })
+);
+
+// Report how far a session has got
+router.get(
+  "/:batchId",
+  asyncHandler(async (req: Request, res: Response) => {
+    const batchId = requirePositiveInt(req.params.batchId, "batchId");
+    const session = await getUploadSession(batchId);
+
+    sendSuccessResponse(
+      res,
+      {
+        batchId,
+        status: session.batch.status,
+        chunks: session.chunks,
+        rowsReceived: session.rowsReceived,
+        nextChunkNumber: session.nextChunkNumber,
+      },
+      200
+    );
+  })
+);
+
+// Append a numbered chunk of rows (safe to re-send after a timeout)
+router.put(
+  "/:batchId/chunks/:chunkNumber",
+  asyncHandler(async (req: Request, res: Response) => {
+    const batchId = requirePositiveInt(req.params.batchId, "batchId");
+    const chunkNumber = requirePositiveInt(req.params.chunkNumber, "chunkNumber");
+    const { sheetData } = (req.body ?? {}) as { sheetData?: SheetDataRow[] };
+
+    // Early returns for validation errors
+    if (!Array.isArray(sheetData)) {
+      sendErrorResponse(res, "sheetData must be an array", "INVALID_REQUEST");
+      return;
+    }
+
+    if (sheetData.length === 0) {
+      sendErrorResponse(res, "sheetData array cannot be empty", "INVALID_REQUEST");
+      return;
+    }
+
+    const result = await appendUploadChunk(batchId, chunkNumber, sheetData);
+
+    if (!result.chunk) {
+      sendErrorResponse(
+        res,
+        `Chunk ${chunkNumber} rejected: ${result.errors.length} rows failed validation or insert`,
+        "ROW_VALIDATION_FAILED",
+        "No rows from this chunk were stored. Fix the rows and send the chunk again.",
+        {
+          batchId,
+          chunkNumber,
+          errors: result.errors,
+        }
+      );
+      return;
+    }
+
+    sendSuccessResponse(
+      res,
+      {
+        batchId,
+        chunkNumber,
+        firstRowNumber: result.chunk.firstRowNumber,
+        rowCount: result.chunk.rowCount,
+        duplicate: result.duplicate,
+      },
+      200,
+      result.duplicate
+        ? `Chunk ${chunkNumber} was already received`
+        : `Stored ${result.chunk.rowCount} rows from chunk ${chunkNumber}`
+    );
+  })
+);
+
+// Commit the session, making its batch visible
+router.post(
+  "/:batchId/commit",
+  asyncHandler(async (req: Request, res: Response) => {
+    const batchId = requirePositiveInt(req.params.batchId, "batchId");
+    const { batch, currentRecords } = await commitUploadSession(batchId);
+
+    sendSuccessResponse(
+      res,
+      {
+        batchId,
+        status: batch.status,
+        inserted: batch.insertedRows,
+        currentRecords,
+      },
+      200,
+      `Upload session ${batchId} committed with ${batch.insertedRows} rows`
+    );
+  })
+);
+
+// Abort the session and discard its rows
+router.post(
+  "/:batchId/abort",
+  asyncHandler(async (req: Request, res: Response) => {
+    const batchId = requirePositiveInt(req.params.batchId, "batchId");
+    const batch = await abortUploadSession(batchId);
+
+    sendSuccessResponse(
+      res,
+      {
+        batchId,
+        status: batch.status,
+      },
+      200,
+      `Upload session ${batchId} aborted`
+    );
+  })
+);
+
+export default router;
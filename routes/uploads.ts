@@ -0,0 +1,298 @@
+// Sheet data upload handler, shared by the default and dataset-scoped upload routes
+import { Request, Response } from "express";
+import { storeSheetData, storeSheetDataStream, findDuplicateBatch } from "../db";
+import { getDataset, DEFAULT_DATASET_SLUG } from "../db/datasets";
+import { createIngestJob } from "../db/jobs";
+import { resolveDedupe } from "../db/sources";
+import type { UploadMode } from "../db/schema";
+import { asyncHandler } from "../middleware/errorHandler";
+import { AppError, sendErrorResponse, sendSuccessResponse } from "../utils/errors";
+import { hashRows } from "../utils/hash";
+import { observeChunks, parseStreamedRows, streamedBodyFormat, type StreamedBodyFormat } from "../utils/ingest";
+import { rowsFromSheetValues, type HeaderCase } from "../utils/sheetValues";
+import { optionalBoolean, parseBatchSource, parseUploadMode } from "../utils/validation";
+import type { SheetDataRow, StoreSheetDataResult } from "../types";
+import { logger } from "../utils/logger";
+
+// Type for upload request body
+interface UploadRequestBody {
+  sheetData?: SheetDataRow[];
+  values?: unknown[][];
+  headers?: unknown[];
+  headerRow?: number;
+  headerCase?: HeaderCase;
+  mergedHeaders?: boolean;
+  spreadsheetId?: string;
+  sheetName?: string;
+  uploadedBy?: string;
+  tags?: string[];
+  mode?: UploadMode;
+  dedupe?: boolean;
+  async?: boolean;
+}
+
+/**
+ * Send the response for a stored upload
+ * 200 when every row was stored, 207 when some failed, 422 when an atomic upload was rejected
+ */
+function sendUploadResult(res: Response, result: StoreSheetDataResult): void {
+  const errorCount = result.errorCount ?? result.errors.length;
+
+  // Atomic uploads store nothing when any row fails
+  if (result.mode === "atomic" && errorCount > 0) {
+    logger.warn("Atomic upload rejected", { batchId: result.batchId, errorCount });
+    sendErrorResponse(
+      res,
+      `Upload rejected: ${errorCount} rows failed validation or insert`,
+      "ROW_VALIDATION_FAILED",
+      "No rows were stored because the upload was made in atomic mode",
+      {
+        batchId: result.batchId,
+        dataset: result.dataset,
+        batchNumber: result.batchNumber,
+        status: result.status,
+        errorCount,
+        errors: result.errors,
+      }
+    );
+    return;
+  }
+
+  // Handle partial success (some rows failed)
+  if (errorCount > 0) {
+    logger.warn("Upload completed with errors", { batchId: result.batchId, errorCount });
+    sendSuccessResponse(
+      res,
+      {
+        batchId: result.batchId,
+        dataset: result.dataset,
+        batchNumber: result.batchNumber,
+        status: result.status,
+        inserted: result.inserted,
+        errorCount,
+        errors: result.errors,
+        currentRecords: result.currentRecords,
+      },
+      207,
+      `Data stored with ${errorCount} errors`
+    );
+    return;
+  }
+
+  // Full success
+  sendSuccessResponse(
+    res,
+    {
+      batchId: result.batchId,
+      dataset: result.dataset,
+      batchNumber: result.batchNumber,
+      status: result.status,
+      inserted: result.inserted,
+      currentRecords: result.currentRecords,
+    },
+    200,
+    `Successfully stored ${result.inserted} rows to database`
+  );
+}
+
+/**
+ * Store a CSV or NDJSON body, read as a stream and written in bounded chunks
+ * Source metadata, mode and dedupe come from the query string
+ */
+async function uploadStreamedBody(
+  req: Request,
+  res: Response,
+  format: StreamedBodyFormat
+): Promise<void> {
+  const query = req.query as Record<string, unknown>;
+  if (optionalBoolean(query.async, "async")) {
+    throw new AppError("async mode is only available for JSON uploads", "INVALID_REQUEST");
+  }
+
+  const datasetSlug = (req.params as { dataset?: string }).dataset ?? DEFAULT_DATASET_SLUG;
+  const dataset = await getDataset(datasetSlug);
+  const source = parseBatchSource(query);
+  const mode = parseUploadMode(query.mode);
+  const dedupe = await resolveDedupe(optionalBoolean(query.dedupe, "dedupe"), source.spreadsheetId);
+
+  logger.info("Receiving streamed upload", { format });
+
+  // A signed stream is hashed as it is read and checked before the batch is finished
+  const signature = req.bodySignature;
+  const body = signature ? observeChunks(req, (chunk) => signature.update(chunk)) : req;
+
+  const result = await storeSheetDataStream(parseStreamedRows(format, body), {
+    dataset,
+    source,
+    mode,
+    dedupe,
+    verify: () => {
+      const signatureError = signature?.verify();
+      if (signatureError) {
+        throw new AppError(signatureError, "INVALID_SIGNATURE");
+      }
+    },
+  });
+
+  if (result.duplicateOf) {
+    sendSuccessResponse(
+      res,
+      {
+        batchId: result.batchId,
+        dataset: result.dataset,
+        batchNumber: result.batchNumber,
+        status: result.status,
+        inserted: 0,
+        duplicate: true,
+      },
+      200,
+      `Data unchanged since batch ${result.batchId}, nothing stored`
+    );
+    return;
+  }
+
+  sendUploadResult(res, result);
+}
+
+/**
+ * Store an upload of sheet rows
+ * Uploads go to the dataset named in the :dataset route parameter, or the default dataset.
+ * JSON bodies carry { sheetData: [...] } or raw { headers?, values: [[...]] } from Range.getValues();
+ * text/csv and application/x-ndjson bodies are streamed.
+ * With async set, the rows are queued for the job worker and 202 is returned with the job's ID.
+ */
+export const uploadSheetData = asyncHandler(async (req: Request, res: Response) => {
+  logger.info("Received data from Google Sheets");
+
+  const streamedFormat = streamedBodyFormat(req);
+  if (streamedFormat) {
+    await uploadStreamedBody(req, res, streamedFormat);
+    return;
+  }
+
+  const body = (req.body ?? {}) as UploadRequestBody;
+
+  if (body.sheetData !== undefined && body.values !== undefined) {
+    sendErrorResponse(
+      res,
+      "Send either sheetData or values, not both",
+      "INVALID_REQUEST"
+    );
+    return;
+  }
+
+  // Raw values are turned into rows here; their header order becomes the batch's columns
+  const fromValues =
+    body.values !== undefined
+      ? rowsFromSheetValues({
+          values: body.values,
+          headers: body.headers,
+          headerRow: body.headerRow,
+          headerCase: body.headerCase,
+          mergedHeaders: body.mergedHeaders,
+        })
+      : null;
+  const sheetData = fromValues?.rows ?? body.sheetData;
+
+  // Early returns for validation errors
+  if (!sheetData) {
+    sendErrorResponse(
+      res,
+      "No sheetData or values provided in the request body",
+      "INVALID_REQUEST"
+    );
+    return;
+  }
+
+  if (!Array.isArray(sheetData)) {
+    sendErrorResponse(
+      res,
+      "sheetData must be an array",
+      "INVALID_REQUEST"
+    );
+    return;
+  }
+
+  if (sheetData.length === 0) {
+    sendErrorResponse(
+      res,
+      "sheetData array cannot be empty",
+      "INVALID_REQUEST"
+    );
+    return;
+  }
+
+  const datasetSlug = (req.params as { dataset?: string }).dataset ?? DEFAULT_DATASET_SLUG;
+  const dataset = await getDataset(datasetSlug);
+  const source = parseBatchSource(body as Record<string, unknown>);
+  const mode = parseUploadMode(body.mode ?? req.query.mode);
+  const dedupe = await resolveDedupe(
+    optionalBoolean(body.dedupe ?? req.query.dedupe, "dedupe"),
+    source.spreadsheetId
+  );
+  const runAsync = optionalBoolean(body.async ?? req.query.async, "async") ?? false;
+
+  logger.info("Received rows", { totalRows: sheetData.length });
+  logger.debug("First row sample", { row: sheetData[0] });
+
+  // Skip storage when the sheet has not changed since its latest batch
+  const contentHash = hashRows(sheetData);
+  const duplicateOf = dedupe
+    ? await findDuplicateBatch(dataset.id, source, contentHash)
+    : null;
+
+  if (duplicateOf) {
+    logger.info("Unchanged upload", { duplicateOf: duplicateOf.id });
+    sendSuccessResponse(
+      res,
+      {
+        batchId: duplicateOf.id,
+        dataset: dataset.slug,
+        batchNumber: duplicateOf.batchNumber,
+        status: duplicateOf.status,
+        inserted: 0,
+        duplicate: true,
+      },
+      200,
+      `Data unchanged since batch ${duplicateOf.id}, nothing stored`
+    );
+    return;
+  }
+
+  // Queue the upload and answer at once; GET /api/jobs/:id reports its progress
+  if (runAsync) {
+    const job = await createIngestJob({
+      dataset,
+      rows: sheetData,
+      source,
+      mode,
+      contentHash,
+      columns: fromValues?.columns,
+      apiKeyId: req.apiKey?.id,
+    });
+
+    sendSuccessResponse(
+      res,
+      {
+        jobId: job.id,
+        dataset: dataset.slug,
+        status: job.status,
+        totalRows: job.totalRows,
+      },
+      202,
+      `Upload queued as job ${job.id}`
+    );
+    return;
+  }
+
+  // Store data to PostgreSQL using Drizzle ORM
+  const result: StoreSheetDataResult = await storeSheetData(sheetData, {
+    dataset,
+    source,
+    mode,
+    contentHash,
+    columns: fromValues?.columns,
+  });
+
+  sendUploadResult(res, result);
+});
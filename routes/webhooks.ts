@@ -0,0 +1,132 @@
+// Routes for managing webhooks and reading their delivery log (admin scope)
+import { Router, Request, Response } from "express";
+import {
+  createWebhook,
+  disableWebhook,
+  getWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  queueWebhookPing,
+  retryWebhookDelivery,
+} from "../db/webhooks";
+import { getDataset } from "../db/datasets";
+import { asyncHandler } from "../middleware/errorHandler";
+import { sendSuccessResponse } from "../utils/errors";
+import {
+  parseWebhookDeliveryFilters,
+  parseWebhookRegistration,
+  requirePositiveInt,
+} from "../utils/validation";
+
+const router = Router();
+
+// List every webhook (secrets are never returned)
+router.get(
+  "/",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const webhooks = await listWebhooks();
+
+    sendSuccessResponse(
+      res,
+      {
+        count: webhooks.length,
+        webhooks,
+      },
+      200
+    );
+  })
+);
+
+// Register a webhook; the signing secret is only included in this response
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const registration = parseWebhookRegistration((req.body ?? {}) as Record<string, unknown>);
+    const dataset = registration.dataset ? await getDataset(registration.dataset) : null;
+
+    const { webhook, secret } = await createWebhook({
+      url: registration.url,
+      secret: registration.secret,
+      datasetId: dataset?.id,
+      spreadsheetId: registration.spreadsheetId,
+    });
+
+    sendSuccessResponse(
+      res,
+      {
+        webhook,
+        secret,
+      },
+      201,
+      "Webhook created. Store the secret now: it cannot be retrieved again."
+    );
+  })
+);
+
+// Fetch one webhook
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const webhook = await getWebhook(requirePositiveInt(req.params.id, "id"));
+
+    sendSuccessResponse(res, webhook, 200);
+  })
+);
+
+// Remove a webhook; its delivery log is kept
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = requirePositiveInt(req.params.id, "id");
+    const webhook = await disableWebhook(id);
+
+    sendSuccessResponse(res, webhook, 200, `Webhook ${id} removed`);
+  })
+);
+
+// Queue a ping delivery to the webhook
+router.post(
+  "/:id/ping",
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = requirePositiveInt(req.params.id, "id");
+    const delivery = await queueWebhookPing(id);
+
+    sendSuccessResponse(res, delivery, 202, `Ping queued for webhook ${id}`);
+  })
+);
+
+// List the webhook's deliveries, newest first
+router.get(
+  "/:id/deliveries",
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = requirePositiveInt(req.params.id, "id");
+    const filters = parseWebhookDeliveryFilters(req.query as Record<string, unknown>);
+    await getWebhook(id);
+    const { deliveries, nextCursor } = await listWebhookDeliveries(id, filters);
+
+    sendSuccessResponse(
+      res,
+      {
+        webhookId: id,
+        count: deliveries.length,
+        deliveries,
+        nextCursor,
+      },
+      200
+    );
+  })
+);
+
+// Send a failed delivery again
+router.post(
+  "/:id/deliveries/:deliveryId/retry",
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = requirePositiveInt(req.params.id, "id");
+    const deliveryId = requirePositiveInt(req.params.deliveryId, "deliveryId");
+    const delivery = await retryWebhookDelivery(id, deliveryId);
+
+    sendSuccessResponse(res, delivery, 202, `Delivery ${deliveryId} queued again`);
+  })
+);
+
+export default router;
@@ -0,0 +1,113 @@
+// Measure sheet_data write throughput of COPY against chunked INSERTs, on the configured database
+// Usage: npm run benchmark:inserts -- [--rows 10000,100000] [--methods copy,insert] [--columns 12]
+// Each run writes a batch to the "benchmark" dataset and deletes it again afterwards.
+import { parseArgs } from "util";
+import { performance } from "perf_hooks";
+import { pool } from "../db";
+import { assertSchemaCurrent } from "../db/migrations";
+import { createBatch, deleteBatch } from "../db/batches";
+import { createDataset, getDataset } from "../db/datasets";
+import { copyBatchRows, insertBatchRows, type SheetDataInsert } from "../db/rows";
+import type { Dataset } from "../db/schema";
+import { getErrorMessage } from "../utils/errors";
+
+const METHODS = {
+  copy: copyBatchRows,
+  insert: (insertData: SheetDataInsert[], firstRowNumber: number) =>
+    insertBatchRows(insertData, firstRowNumber),
+};
+
+type Method = keyof typeof METHODS;
+
+/**
+ * Build rows shaped like a typical sheet: text, numbers, dates and booleans
+ */
+function buildRows(batchId: number, count: number, columns: number): SheetDataInsert[] {
+  return Array.from({ length: count }, (_, index) => {
+    const data: Record<string, unknown> = { id: index + 1 };
+    for (let column = 1; column < columns; column++) {
+      const cell = (index * 31 + column * 7) % 1000;
+      data[`column_${column}`] =
+        column % 4 === 0
+          ? `2024-${String((cell % 12) + 1).padStart(2, "0")}-15`
+          : column % 4 === 1
+            ? `Value ${cell} of row ${index + 1}`
+            : column % 4 === 2
+              ? cell * 1.25
+              : cell % 2 === 0;
+    }
+    return { batchId, rowNumber: index + 1, data };
+  });
+}
+
+/**
+ * Write one batch of rows with the given method and report its throughput
+ */
+async function runBenchmark(
+  dataset: Dataset,
+  method: Method,
+  rowCount: number,
+  columns: number
+): Promise<void> {
+  const batch = await createBatch({
+    datasetId: dataset.id,
+    expectedRows: rowCount,
+    source: { uploadedBy: "benchmark" },
+  });
+
+  try {
+    const insertData = buildRows(batch.id, rowCount, columns);
+
+    const started = performance.now();
+    const { inserted, errors } = await METHODS[method](insertData, 1);
+    const seconds = (performance.now() - started) / 1000;
+
+    const throughput = Math.round(inserted / seconds).toLocaleString("en-US");
+    console.log(
+      `${method.padEnd(6)} ${String(rowCount).padStart(9)} rows  ` +
+        `${seconds.toFixed(2).padStart(8)} s  ${throughput.padStart(10)} rows/s` +
+        (errors.length > 0 ? `  (${errors.length} errors)` : "")
+    );
+  } finally {
+    await deleteBatch(batch.id);
+  }
+}
+
+(async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      rows: { type: "string", default: "10000,100000,1000000" },
+      methods: { type: "string", default: "copy,insert" },
+      columns: { type: "string", default: "12" },
+    },
+  });
+
+  const rowCounts = (values.rows ?? "").split(",").map((count) => parseInt(count, 10));
+  const methods = (values.methods ?? "").split(",");
+  const columns = parseInt(values.columns ?? "12", 10);
+
+  if (rowCounts.some((count) => !(count > 0)) || !(columns > 0)) {
+    throw new Error("--rows and --columns must be positive integers");
+  }
+  const unknown = methods.filter((method) => !(method in METHODS));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown methods: ${unknown.join(", ")} (use copy, insert)`);
+  }
+
+  await assertSchemaCurrent();
+  const dataset = await getDataset("benchmark").catch(() =>
+    createDataset("benchmark", "Scratch dataset for insert benchmarks")
+  );
+
+  console.log(`Writing rows of ${columns} columns`);
+  for (const rowCount of rowCounts) {
+    for (const method of methods as Method[]) {
+      await runBenchmark(dataset, method, rowCount, columns);
+    }
+  }
+})()
+  .catch((error: unknown) => {
+    console.error("Benchmark failed:", getErrorMessage(error));
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
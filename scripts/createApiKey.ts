@@ -0,0 +1,40 @@
+// Create an API key from the command line (used to bootstrap the first admin key)
+// Usage: npm run api-key:create -- --name "Ops team" --scopes admin [--require-signature]
+import { parseArgs } from "util";
+import { createApiKey } from "../db/apiKeys";
+import { pool } from "../db";
+import { assertSchemaCurrent } from "../db/migrations";
+import { getErrorMessage } from "../utils/errors";
+import { parseApiKeyScopes } from "../utils/validation";
+
+(async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      scopes: { type: "string" },
+      "require-signature": { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.name) {
+    throw new Error("--name is required");
+  }
+
+  const scopes = parseApiKeyScopes(values.scopes);
+
+  await assertSchemaCurrent();
+  const { apiKey, key, signingSecret } = await createApiKey(
+    values.name,
+    scopes,
+    values["require-signature"] ?? false
+  );
+
+  console.log(`Created API key ${apiKey.id} (${apiKey.name}) with scopes: ${apiKey.scopes.join(", ")}`);
+  console.log(`Key (shown once, store it now): ${key}`);
+  console.log(`Signing secret (shown once, store it now): ${signingSecret}`);
+})()
+  .catch((error: unknown) => {
+    console.error("Failed to create API key:", getErrorMessage(error));
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,34 @@
+// Apply pending schema migrations, or only check that none are pending (for deploys)
+// Usage: npm run db:migrate [-- --check]
+import { parseArgs } from "util";
+import { pool } from "../db";
+import { assertSchemaCurrent, getMigrationStatus, runMigrations } from "../db/migrations";
+import { getErrorMessage } from "../utils/errors";
+
+(async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      check: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.check) {
+    const status = await getMigrationStatus();
+    console.log(`Applied: ${status.applied.map((migration) => migration.tag).join(", ") || "none"}`);
+    await assertSchemaCurrent();
+    console.log("Database schema is up to date");
+    return;
+  }
+
+  const applied = await runMigrations();
+  if (applied.length === 0) {
+    console.log("Database schema is up to date, nothing to apply");
+    return;
+  }
+  console.log(`Applied ${applied.length} migration(s): ${applied.map((m) => m.tag).join(", ")}`);
+})()
+  .catch((error: unknown) => {
+    console.error("Migration failed:", getErrorMessage(error));
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
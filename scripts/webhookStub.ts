@@ -0,0 +1,55 @@
+// Local HTTP endpoint for trying out webhooks: logs each delivery and checks its signature
+// Usage: npm run webhook:stub -- --secret whsec_... [--port 4000] [--fail]
+import { createServer } from "http";
+import { timingSafeEqual } from "crypto";
+import { parseArgs } from "util";
+import { signPayload } from "../middleware/auth";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "4000" },
+    secret: { type: "string" },
+    fail: { type: "boolean", default: false },
+  },
+});
+
+const port = parseInt(values.port ?? "4000", 10);
+
+/**
+ * Check the X-Signature header against the body, when a secret was given
+ */
+function checkSignature(timestamp: string, signature: string, body: string): string {
+  if (!values.secret) {
+    return "not checked (no --secret)";
+  }
+
+  const expected = Buffer.from(signPayload(values.secret, timestamp, body), "hex");
+  const received = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+  return expected.length === received.length && timingSafeEqual(expected, received)
+    ? "valid"
+    : "INVALID";
+}
+
+createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const timestamp = String(req.headers["x-signature-timestamp"] ?? "");
+    const signature = String(req.headers["x-signature"] ?? "");
+
+    const event = String(req.headers["x-webhook-event"]);
+    const delivery = String(req.headers["x-webhook-delivery"]);
+
+    console.log(
+      `${req.method} ${req.url} event=${event} delivery=${delivery} signature=${checkSignature(timestamp, signature, body)}`
+    );
+    console.log(body);
+
+    // --fail answers 500, to watch the retries and backoff
+    res.writeHead(values.fail ? 500 : 200, { "Content-Type": "text/plain" });
+    res.end(values.fail ? "stub failing on purpose" : "ok");
+  });
+}).listen(port, () => {
+  console.log(`Webhook stub listening at http://localhost:${port}`);
+});
@@ -0,0 +1,32 @@
+// Properties added to Express requests by this application's middleware
+import type { ApiKey } from "../db/schema";
+import type { BodySignature } from "../middleware/auth";
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /**
+       * Raw request body, kept for HMAC signature verification
+       */
+      rawBody?: Buffer;
+
+      /**
+       * Pending signature check of a streamed (CSV or NDJSON) body
+       */
+      bodySignature?: BodySignature;
+
+      /**
+       * API key that authenticated the request
+       */
+      apiKey?: ApiKey;
+
+      /**
+       * ID of the request, sent back in X-Request-Id and in error responses
+       */
+      requestId?: string;
+    }
+  }
+}
+
+export {};
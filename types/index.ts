@@ -1,28 +1,342 @@
 // Shared type definitions for the application
+import type {
+  Batch,
+  BatchStatus,
+  CurrentRecord,
+  Dataset,
+  RejectedRow,
+  SheetData,
+  UploadMode,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "../db/schema";
+import type { RowFilterOperator } from "../db/batchQuery";
+import type { BatchChangeType } from "../db/batchDiff";
+import type { ErrorCode } from "../utils/errorCodes";
 
 /**
  * Type for individual sheet row data (flexible JSON object)
  */
 export type SheetDataRow = Record<string, unknown>;
 
+/**
+ * Optional metadata describing where an upload came from
+ */
+export interface BatchSource {
+  spreadsheetId?: string;
+  sheetName?: string;
+  uploadedBy?: string;
+  tags?: string[];
+}
+
+/**
+ * Options for storing an upload
+ * mode falls back to the source's configured upload mode, then to best_effort
+ * dataset defaults to the "default" dataset
+ * contentHash is computed from the rows when not supplied
+ * columns (sheet column order) is taken from the rows' keys when not supplied
+ * onProgress is called as chunks of rows are inserted
+ */
+export interface StoreSheetDataOptions {
+  dataset?: Dataset;
+  source?: BatchSource;
+  mode?: UploadMode;
+  contentHash?: string;
+  columns?: string[];
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Rows stored so far by an insert, after chunk of totalChunks
+ */
+export interface InsertProgress {
+  inserted: number;
+  chunk: number;
+  totalChunks: number;
+}
+
+/**
+ * Progress of an upload: the insert's progress, with the batch being written
+ */
+export interface UploadProgress extends InsertProgress {
+  batchId: number;
+  totalRows: number;
+}
+
+/**
+ * Filters and cursor for listing batches
+ * deleted lists soft-deleted batches instead of live ones
+ */
+export interface BatchListFilters {
+  datasetId?: number;
+  spreadsheetId?: string;
+  sheetName?: string;
+  uploadedBy?: string;
+  tags?: string[];
+  status?: BatchStatus;
+  from?: Date;
+  to?: Date;
+  deleted?: boolean;
+  cursor?: number;
+  limit?: number;
+}
+
+/**
+ * One page of a batch listing
+ * nextCursor is null when there are no more batches
+ */
+export interface BatchListPage {
+  batches: Batch[];
+  nextCursor: number | null;
+}
+
+/**
+ * Filters and cursor for listing current records
+ * Deleted records are left out unless includeDeleted is set
+ */
+export interface CurrentRecordListFilters {
+  datasetId?: number;
+  spreadsheetId?: string;
+  sheetName?: string;
+  includeDeleted?: boolean;
+  cursor?: number;
+  limit?: number;
+}
+
+/**
+ * One page of current records
+ */
+export interface CurrentRecordPage {
+  records: CurrentRecord[];
+  nextCursor: number | null;
+}
+
+/**
+ * Outcome of merging a batch into current_records
+ */
+export interface CurrentRecordsSummary {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+/**
+ * Webhook registration as sent to POST /api/admin/webhooks
+ * - dataset: Slug of the dataset to filter on, resolved by the route
+ */
+export interface WebhookRegistration {
+  url: string;
+  secret?: string;
+  dataset?: string;
+  spreadsheetId?: string;
+}
+
+/**
+ * Filters and cursor for listing a webhook's deliveries
+ */
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  batchId?: number;
+  cursor?: number;
+  limit?: number;
+}
+
+/**
+ * One page of a webhook's delivery log
+ */
+export interface WebhookDeliveryPage {
+  deliveries: WebhookDelivery[];
+  nextCursor: number | null;
+}
+
+/**
+ * Schema violation on one column of a row
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Filter on one data field of a batch's rows
+ * value is a list for the "in" operator
+ */
+export interface RowFilter {
+  field: string;
+  operator: RowFilterOperator;
+  value: string | string[];
+}
+
+/**
+ * Row order: a data field, or row order when field is null
+ */
+export interface RowSort {
+  field: string | null;
+  descending: boolean;
+}
+
+/**
+ * Query options for reading a batch's rows
+ * - fields: Data keys to return (all keys when omitted)
+ * - limit / cursor: Page size and the nextCursor of the previous page (no limit returns every row)
+ */
+export interface BatchRowQuery {
+  fields?: string[];
+  sort?: RowSort;
+  filters?: RowFilter[];
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * One page of a batch's rows
+ * nextCursor is null when there are no more rows
+ */
+export interface BatchRowPage {
+  rows: SheetData[];
+  nextCursor: string | null;
+}
+
+/**
+ * Options for comparing two batches
+ * - key: Data field identifying a record in both batches
+ * - changes: Change types to return (all when omitted)
+ * - limit / cursor: Page size and the nextCursor of the previous page
+ */
+export interface BatchDiffQuery {
+  key: string;
+  changes?: BatchChangeType[];
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Old and new value of a field that differs between two versions of a row
+ * A field missing from one version has null on that side
+ */
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+/**
+ * One difference between two batches
+ * data is the row for added and removed keys; fields holds the differing fields of a modified one
+ */
+export interface RowChange {
+  key: string;
+  change: BatchChangeType;
+  data?: SheetDataRow;
+  fields?: Record<string, FieldChange>;
+}
+
+/**
+ * Number of changes of each type between two batches
+ */
+export type BatchDiffSummary = Record<BatchChangeType, number>;
+
+/**
+ * One page of the differences between two batches
+ * summary is only set on the first page; nextCursor is null when there are no more changes
+ */
+export interface BatchDiffPage {
+  changes: RowChange[];
+  nextCursor: string | null;
+  summary?: BatchDiffSummary;
+}
+
 /**
  * Error information for a specific row that failed to insert
+ * fieldErrors is set when the row was rejected by the dataset's row schema
  */
 export interface RowError {
   rowIndex: number;
   rowNumber: number;
   rowData: SheetDataRow;
   error: string;
+  fieldErrors?: FieldError[];
+}
+
+/**
+ * Rejected row as returned by the API, with its data parsed
+ */
+export type RejectedRowEntry = Omit<RejectedRow, "rowData"> & { rowData: SheetDataRow };
+
+/**
+ * Cursor (a row number) and page size for listing a batch's rejected rows
+ */
+export interface RejectedRowFilters {
+  cursor?: number;
+  limit?: number;
+}
+
+/**
+ * One page of a batch's rejected rows, in row order
+ */
+export interface RejectedRowPage {
+  rejections: RejectedRowEntry[];
+  nextCursor: number | null;
+}
+
+/**
+ * Which rejected rows to replay, and corrected data for some of them
+ * With neither field set, every rejected row of the batch is replayed as stored
+ */
+export interface RejectionReplay {
+  rows?: { rowNumber: number; data: SheetDataRow }[];
+  rowNumbers?: number[];
+}
+
+/**
+ * Outcome of a replay: rows that failed again stay rejected and are listed in errors
+ */
+export interface RejectionReplayResult {
+  batch: Batch;
+  replayed: number;
+  inserted: number;
+  errors: RowError[];
+  currentRecords?: CurrentRecordsSummary | null;
+}
+
+/**
+ * Row read from a streamed (CSV or NDJSON) body
+ * error is set when the line could not be turned into a row; data then holds what was read
+ */
+export interface StreamedRow {
+  data: SheetDataRow;
+  error?: string;
+}
+
+/**
+ * Options for storing a streamed upload
+ * verify runs once the body has been read completely, before the batch is finished;
+ * throwing from it discards the upload (used for deferred signature checks)
+ */
+export interface StoreSheetStreamOptions extends StoreSheetDataOptions {
+  dedupe?: boolean;
+  verify?: () => void;
 }
 
 /**
  * Result of storing sheet data
+ * errorCount is only set for streamed uploads, whose errors list is capped
+ * duplicateOf is set when a streamed upload matched the source's latest batch and was discarded
+ * currentRecords is set when the source has a key column (null if the merge failed and was
+ *   left for the retention job to retry)
  */
 export interface StoreSheetDataResult {
   success: boolean;
   batchId: number;
+  dataset: string;
+  batchNumber: number;
+  mode: UploadMode;
+  status: BatchStatus;
   inserted: number;
   errors: RowError[];
+  errorCount?: number;
+  duplicateOf?: Batch;
+  currentRecords?: CurrentRecordsSummary | null;
 }
 
 /**
@@ -42,7 +356,10 @@ export interface ApiResponse<T = unknown> {
 export interface ErrorResponse {
   success: false;
   error: string;
+  code: ErrorCode;
   message?: string;
+  requestId?: string;
+  details?: unknown;
 }
 
 /**
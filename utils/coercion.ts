@@ -0,0 +1,360 @@
+// Coercion of sheet cell values to typed JSON values, driven by per-source column type hints
+import type { SheetDataRow } from "../types";
+
+/**
+ * Type hints that can be set for a source's columns
+ * - string: Numbers and booleans become their text (e.g. IDs and postcodes)
+ * - number: "1,234.50", "(12)" and "1e3" style text becomes a number
+ * - percent: As number, with "12%" becoming 0.12
+ * - currency: As number, ignoring a currency symbol or code ("$1,234.50", "EUR 12")
+ * - boolean: TRUE/FALSE, yes/no, y/n and 1/0 (any case) become true or false
+ * - date: Becomes "YYYY-MM-DD" in the sheet's timezone
+ * - datetime: Becomes an ISO 8601 UTC timestamp; times without an offset are read in the
+ *   sheet's timezone
+ */
+export const COLUMN_TYPE_HINTS = [
+  "string",
+  "number",
+  "percent",
+  "currency",
+  "boolean",
+  "date",
+  "datetime",
+] as const;
+
+export type ColumnTypeHint = (typeof COLUMN_TYPE_HINTS)[number];
+
+/**
+ * Order of day and month in display dates such as 03/05/2024
+ */
+export const DATE_ORDERS = ["mdy", "dmy"] as const;
+
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+/**
+ * Everything needed to coerce the rows of one source
+ */
+export interface CoercionSettings {
+  columnTypes: Record<string, ColumnTypeHint>;
+  timezone: string;
+  dateOrder: DateOrder;
+}
+
+/**
+ * Date and time of day as shown in a sheet, before any timezone is applied
+ * (stored as the epoch milliseconds of the same wall-clock time in UTC)
+ */
+type WallClock = number;
+
+const NUMBER_PATTERN = /^[+-]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][+-]?\d+)?$/;
+const CURRENCY_PREFIX = /^(?:[$€£¥₹]|[A-Z]{3})\s*/;
+const CURRENCY_SUFFIX = /\s*(?:[$€£¥₹]|[A-Z]{3})$/;
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DISPLAY_DATE_PATTERN =
+  /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?$/;
+const TRUE_TEXT = new Set(["true", "yes", "y", "1"]);
+const FALSE_TEXT = new Set(["false", "no", "n", "0"]);
+
+// Day 0 of Sheets' date serial numbers
+const SHEETS_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timezoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Formatter reporting the wall-clock time of an instant in a timezone
+ * @throws RangeError when the timezone is not a known IANA name
+ */
+function timezoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = timezoneFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    timezoneFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a timezone is a known IANA name (e.g. "Europe/Berlin")
+ * @param timezone - Timezone name
+ * @returns boolean
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    timezoneFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+function toWallClock(instant: number, timezone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of timezoneFormatter(timezone).formatToParts(new Date(instant))) {
+    parts[part.type] = Number(part.value);
+  }
+
+  const seconds = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return seconds + (((instant % 1000) + 1000) % 1000);
+}
+
+/**
+ * Instant at which a timezone shows a wall-clock time
+ * Times skipped by a DST change resolve to the offset in force before it
+ */
+function fromWallClock(wallClock: WallClock, timezone: string): number {
+  const firstOffset = toWallClock(wallClock, timezone) - wallClock;
+  const instant = wallClock - firstOffset;
+  const secondOffset = toWallClock(instant, timezone) - instant;
+  return secondOffset === firstOffset ? instant : wallClock - secondOffset;
+}
+
+/**
+ * Build a wall-clock time, or null when a field is out of range (e.g. 31 February)
+ */
+function wallClock(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  millisecond = 0
+): WallClock | null {
+  if (hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  const time = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  const date = new Date(time);
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? time
+    : null;
+}
+
+/**
+ * Read a date or time cell
+ * @returns The instant when the cell carries an offset, otherwise its wall-clock time;
+ *   null when the cell is not a date
+ */
+function parseDateCell(
+  value: unknown,
+  dateOrder: DateOrder
+): { instant: number } | { wallClock: WallClock } | null {
+  // Date serial number: days since 30 December 1899, the fraction being the time of day
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? { wallClock: SHEETS_EPOCH + Math.round(value * DAY_MS) } : null;
+  }
+
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const text = value.trim();
+
+  const iso = ISO_DATE_PATTERN.exec(text);
+  if (iso) {
+    const [, year, month, day, hour, minute, second, fraction, offset] = iso;
+    const time = wallClock(
+      Number(year),
+      Number(month),
+      Number(day),
+      Number(hour ?? 0),
+      Number(minute ?? 0),
+      Number(second ?? 0),
+      Number((fraction ?? "").padEnd(3, "0"))
+    );
+    if (time === null) {
+      return null;
+    }
+    if (!offset) {
+      return { wallClock: time };
+    }
+    if (offset === "Z") {
+      return { instant: time };
+    }
+    const sign = offset.startsWith("-") ? -1 : 1;
+    const digits = offset.slice(1).replace(":", "");
+    const offsetMinutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+    return { instant: time - sign * offsetMinutes * 60 * 1000 };
+  }
+
+  const display = DISPLAY_DATE_PATTERN.exec(text);
+  if (display) {
+    const [, first, second, year, hour, minute, seconds, meridiem] = display;
+    const [month, day] = dateOrder === "mdy" ? [first, second] : [second, first];
+
+    let hours = Number(hour ?? 0);
+    if (meridiem) {
+      if (hours < 1 || hours > 12) {
+        return null;
+      }
+      hours = (hours % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0);
+    }
+
+    const time = wallClock(
+      Number(year),
+      Number(month),
+      Number(day),
+      hours,
+      Number(minute ?? 0),
+      Number(seconds ?? 0)
+    );
+    return time === null ? null : { wallClock: time };
+  }
+
+  return null;
+}
+
+/**
+ * Read numeric text; thousands separators must be commas and the decimal mark a point
+ */
+function parseNumberText(text: string): number | null {
+  let body = text.replace(/\s/g, "");
+  let sign = 1;
+
+  // Accounting style negatives: (1,234.50)
+  if (body.startsWith("(") && body.endsWith(")")) {
+    body = body.slice(1, -1);
+    sign = -1;
+  }
+
+  if (body === "" || body === "." || !NUMBER_PATTERN.test(body) || !/\d/.test(body)) {
+    return null;
+  }
+
+  const number = Number(body.replace(/,/g, ""));
+  return Number.isFinite(number) ? sign * number : null;
+}
+
+/**
+ * Coerce one value; undefined means the value could not be coerced
+ */
+function coerceTo(value: unknown, hint: ColumnTypeHint, settings: CoercionSettings): unknown {
+  switch (hint) {
+    case "string":
+      return typeof value === "number" || typeof value === "boolean" ? String(value) : value;
+
+    case "number":
+      if (typeof value === "number") {
+        return value;
+      }
+      return typeof value === "string" ? (parseNumberText(value) ?? undefined) : undefined;
+
+    case "percent": {
+      if (typeof value === "number") {
+        return value;
+      }
+      if (typeof value !== "string") {
+        return undefined;
+      }
+      const text = value.trim();
+      if (!text.endsWith("%")) {
+        return parseNumberText(text) ?? undefined;
+      }
+      const number = parseNumberText(text.slice(0, -1));
+      // Shift the decimal point in the text, so 12.3% gives 0.123 rather than 0.12300000000000001
+      return number === null ? undefined : Number(`${number}e-2`);
+    }
+
+    case "currency": {
+      if (typeof value === "number") {
+        return value;
+      }
+      if (typeof value !== "string") {
+        return undefined;
+      }
+      // The sign may sit outside the symbol: -$5, ($5)
+      let text = value.trim();
+      let negative = false;
+      if (text.startsWith("-")) {
+        negative = true;
+        text = text.slice(1).trim();
+      } else if (text.startsWith("(") && text.endsWith(")")) {
+        negative = true;
+        text = text.slice(1, -1).trim();
+      }
+      const number = parseNumberText(text.replace(CURRENCY_PREFIX, "").replace(CURRENCY_SUFFIX, ""));
+      return number === null ? undefined : negative ? -number : number;
+    }
+
+    case "boolean": {
+      if (typeof value === "boolean") {
+        return value;
+      }
+      if (typeof value !== "string" && typeof value !== "number") {
+        return undefined;
+      }
+      const text = String(value).trim().toLowerCase();
+      return TRUE_TEXT.has(text) ? true : FALSE_TEXT.has(text) ? false : undefined;
+    }
+
+    case "date":
+    case "datetime": {
+      const parsed = parseDateCell(value, settings.dateOrder);
+      if (!parsed) {
+        return undefined;
+      }
+      if (hint === "datetime") {
+        const instant =
+          "instant" in parsed ? parsed.instant : fromWallClock(parsed.wallClock, settings.timezone);
+        return new Date(instant).toISOString();
+      }
+      const time =
+        "wallClock" in parsed ? parsed.wallClock : toWallClock(parsed.instant, settings.timezone);
+      return new Date(time).toISOString().slice(0, 10);
+    }
+  }
+}
+
+/**
+ * Coerce one cell value according to its column's type hint
+ * Blank cells (null, undefined, "") are left alone, as is any value that cannot be coerced
+ * @param value - Cell value as uploaded
+ * @param hint - Type hint of the column
+ * @param settings - Timezone and date order of the source
+ * @returns unknown - The coerced value, or the original one
+ */
+export function coerceValue(value: unknown, hint: ColumnTypeHint, settings: CoercionSettings): unknown {
+  if (value === undefined || value === null || (typeof value === "string" && value.trim() === "")) {
+    return value;
+  }
+
+  const coerced = coerceTo(value, hint, settings);
+  return coerced === undefined ? value : coerced;
+}
+
+/**
+ * Coerce the hinted columns of a row; columns without a hint are copied unchanged
+ * @param row - Row as uploaded (not modified)
+ * @param settings - Column type hints, timezone and date order of the source
+ * @returns SheetDataRow - A new row, or the same row when it is not an object
+ */
+export function coerceRow(row: SheetDataRow, settings: CoercionSettings): SheetDataRow {
+  if (typeof row !== "object" || row === null || Array.isArray(row)) {
+    return row;
+  }
+
+  const coerced: SheetDataRow = { ...row };
+  for (const [column, hint] of Object.entries(settings.columnTypes)) {
+    // Own keys only: `in` would also match inherited names such as constructor or toString
+    // (Object.hasOwn needs ES2022, beyond this project's lib)
+    if (Object.prototype.hasOwnProperty.call(coerced, column)) {
+      coerced[column] = coerceValue(coerced[column], hint, settings);
+    }
+  }
+  return coerced;
+}
@@ -0,0 +1,144 @@
+// Server configuration: read from the environment (and .env) once, and validated at boot
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Problems found while reading the settings; all of them are reported together
+const problems: string[] = [];
+
+/**
+ * Read an integer setting, recording a problem when it is not a whole number in range
+ */
+function readInt(name: string, fallback: number, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    const range = max === Number.MAX_SAFE_INTEGER ? `at least ${min}` : `between ${min} and ${max}`;
+    problems.push(`${name} must be a whole number ${range} (got "${raw}")`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Read an optional limit, where unset and 0 both mean no limit
+ */
+function readLimit(name: string): number | null {
+  const value = readInt(name, 0, 0);
+  return value > 0 ? value : null;
+}
+
+/**
+ * Read a true/false setting
+ */
+function readBoolean(name: string, fallback: boolean): boolean {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  if (raw !== "true" && raw !== "false") {
+    problems.push(`${name} must be true or false (got "${raw}")`);
+    return fallback;
+  }
+  return raw === "true";
+}
+
+/**
+ * Read a setting that must be one of a fixed set of values
+ */
+function readChoice<T extends string>(name: string, choices: readonly T[], fallback: T): T {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  if (!choices.includes(raw as T)) {
+    problems.push(`${name} must be one of ${choices.join(", ")} (got "${raw}")`);
+    return fallback;
+  }
+  return raw as T;
+}
+
+/**
+ * Read a string setting
+ */
+function readString(name: string, fallback: string): string {
+  return process.env[name] || fallback;
+}
+
+/**
+ * Read a size in the notation of Express's body parsers, e.g. "100mb" or "512kb"
+ */
+function readByteSize(name: string, fallback: string): string {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  if (!/^\d+(\.\d+)?\s*(b|kb|mb|gb)?$/i.test(raw) || parseFloat(raw) <= 0) {
+    problems.push(`${name} must be a size such as 100mb, 512kb or a number of bytes (got "${raw}")`);
+    return fallback;
+  }
+  return raw;
+}
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+/**
+ * Severity of a log line
+ */
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Every setting of the server, with its default
+ * Seconds, minutes, hours and days are named in the setting; 0 disables a background job.
+ */
+export const config = {
+  port: readInt("PORT", 3000, 1, 65535),
+
+  // PostgreSQL connection and pool
+  dbHost: readString("DB_HOST", "localhost"),
+  dbPort: readInt("DB_PORT", 5432, 1, 65535),
+  dbName: readString("DB_NAME", "sparti_db"),
+  dbUser: readString("DB_USER", "postgres"),
+  dbPassword: readString("DB_PASSWORD", ""),
+  dbPoolMax: readInt("DB_POOL_MAX", 20, 1, 1000),
+  dbIdleTimeoutMs: readInt("DB_IDLE_TIMEOUT_MS", 30000, 0),
+  dbConnectionTimeoutMs: readInt("DB_CONNECTION_TIMEOUT_MS", 2000, 0),
+
+  // Requests and uploads
+  bodyLimit: readByteSize("BODY_LIMIT", "100mb"),
+  // INSERT chunks are bounded by Postgres's 65535 bind parameters, three per row
+  insertChunkSize: readInt("INSERT_CHUNK_SIZE", 5000, 1, 20000),
+  copyChunkSize: readInt("COPY_CHUNK_SIZE", 50000, 1, 1_000_000),
+  signatureToleranceSeconds: readInt("SIGNATURE_TOLERANCE_SECONDS", 300, 1),
+  idempotencyWindowHours: readInt("IDEMPOTENCY_WINDOW_HOURS", 24, 1),
+  migrateOnStart: readBoolean("MIGRATE_ON_START", false),
+  shutdownTimeoutSeconds: readInt("SHUTDOWN_TIMEOUT_SECONDS", 30, 0),
+
+  // Retention
+  retentionKeepBatches: readLimit("RETENTION_KEEP_BATCHES"),
+  retentionMaxAgeDays: readLimit("RETENTION_MAX_AGE_DAYS"),
+  deletedBatchRetentionDays: readInt("DELETED_BATCH_RETENTION_DAYS", 30, 0),
+  retentionIntervalMinutes: readInt("RETENTION_INTERVAL_MINUTES", 60, 0),
+  staleBatchHours: readInt("STALE_BATCH_HOURS", 6, 1),
+
+  // Webhook delivery
+  webhookPollIntervalSeconds: readInt("WEBHOOK_POLL_INTERVAL_SECONDS", 5, 0),
+  webhookMaxAttempts: readInt("WEBHOOK_MAX_ATTEMPTS", 8, 1),
+  webhookRetryBaseSeconds: readInt("WEBHOOK_RETRY_BASE_SECONDS", 30, 1),
+  webhookTimeoutSeconds: readInt("WEBHOOK_TIMEOUT_SECONDS", 10, 1),
+
+  // Async uploads
+  jobPollIntervalSeconds: readInt("JOB_POLL_INTERVAL_SECONDS", 2, 0),
+
+  // Logging
+  logLevel: readChoice("LOG_LEVEL", LOG_LEVELS, "info"),
+  logRowData: readBoolean("LOG_ROW_DATA", false),
+} as const;
+
+if (problems.length > 0) {
+  throw new Error(`Invalid configuration:\n- ${problems.join("\n- ")}`);
+}
@@ -0,0 +1,127 @@
+// Error code catalogue: the machine-readable code of every error response, and its HTTP status
+
+/**
+ * Every error code the API returns, with the HTTP status it is sent with
+ * Codes are stable: clients can branch on them, while messages may change.
+ */
+export const ERROR_CODES = {
+  // The request is malformed or fails validation
+  INVALID_REQUEST: 400,
+  INVALID_JSON: 400,
+  INVALID_CURSOR: 400,
+  INVALID_ROW_SCHEMA: 400,
+
+  // Authentication and authorization
+  AUTHENTICATION_REQUIRED: 401,
+  INVALID_API_KEY: 401,
+  INVALID_SIGNATURE: 401,
+  INSUFFICIENT_SCOPE: 403,
+
+  // The named resource does not exist (or cannot be read)
+  NOT_FOUND: 404,
+  API_KEY_NOT_FOUND: 404,
+  BATCH_NOT_FOUND: 404,
+  DATASET_NOT_FOUND: 404,
+  JOB_NOT_FOUND: 404,
+  REJECTED_ROW_NOT_FOUND: 404,
+  SOURCE_NOT_FOUND: 404,
+  UPLOAD_SESSION_NOT_FOUND: 404,
+  WEBHOOK_NOT_FOUND: 404,
+  WEBHOOK_DELIVERY_NOT_FOUND: 404,
+
+  // The request conflicts with the current state
+  BATCH_IN_PROGRESS: 409,
+  CHUNK_CONFLICT: 409,
+  CHUNK_OUT_OF_ORDER: 409,
+  DATASET_EXISTS: 409,
+  IDEMPOTENCY_KEY_IN_PROGRESS: 409,
+  IDEMPOTENCY_KEY_REUSED: 409,
+  UPLOAD_SESSION_CLOSED: 409,
+  UPLOAD_SESSION_INCOMPLETE: 409,
+  WEBHOOK_REMOVED: 409,
+  WEBHOOK_DELIVERY_NOT_FAILED: 409,
+  DB_CONFLICT: 409,
+
+  PAYLOAD_TOO_LARGE: 413,
+
+  // Rows were rejected
+  REQUIRED_COLUMNS_MISSING: 422,
+  ROW_VALIDATION_FAILED: 422,
+
+  // Server-side failures
+  INTERNAL_ERROR: 500,
+  DB_ERROR: 500,
+  DB_UNAVAILABLE: 503,
+  DB_TIMEOUT: 503,
+  SCHEMA_OUT_OF_DATE: 503,
+  NOT_READY: 503,
+  SHUTTING_DOWN: 503,
+} as const;
+
+/**
+ * Machine-readable error code
+ */
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+// Node socket errors raised when the database cannot be reached
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EHOSTUNREACH",
+  "EPIPE",
+]);
+
+// SQLSTATEs meaning the server is shutting down, starting up or out of resources
+const UNAVAILABLE_SQLSTATES = new Set(["57P01", "57P02", "57P03"]);
+
+// SQLSTATEs of writes that lost to a concurrent one: unique violation, serialization
+// failure and deadlock
+const CONFLICT_SQLSTATES = new Set(["23505", "40001", "40P01"]);
+
+/**
+ * Get the SQLSTATE or Node error code of an error, if it has one
+ */
+function getRawErrorCode(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null || !("code" in error)) {
+    return undefined;
+  }
+  return typeof error.code === "string" ? error.code : undefined;
+}
+
+/**
+ * Check whether an error was raised by Postgres or by the connection to it
+ */
+export function isDatabaseError(error: unknown): boolean {
+  const code = getRawErrorCode(error);
+  return code !== undefined && (CONNECTION_ERROR_CODES.has(code) || /^[0-9A-Z]{5}$/.test(code));
+}
+
+/**
+ * Map a database error to an error code, by its SQLSTATE (class 08 is a connection
+ * exception, class 53 insufficient resources, 57014 a statement timeout)
+ * Errors without a known SQLSTATE are DB_ERROR.
+ */
+export function getDatabaseErrorCode(error: unknown): ErrorCode {
+  const code = getRawErrorCode(error);
+
+  if (code === undefined) {
+    return "DB_ERROR";
+  }
+  if (
+    CONNECTION_ERROR_CODES.has(code) ||
+    UNAVAILABLE_SQLSTATES.has(code) ||
+    code.startsWith("08") ||
+    code.startsWith("53")
+  ) {
+    return "DB_UNAVAILABLE";
+  }
+  if (code === "57014") {
+    return "DB_TIMEOUT";
+  }
+  if (CONFLICT_SQLSTATES.has(code)) {
+    return "DB_CONFLICT";
+  }
+  return "DB_ERROR";
+}
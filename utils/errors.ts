@@ -1,35 +1,64 @@
 // Error handling utilities
 import { Response } from "express";
 import { ErrorResponse, SuccessResponse } from "../types";
+import { ERROR_CODES, getDatabaseErrorCode, type ErrorCode } from "./errorCodes";
 
 /**
  * Custom application error class
+ * The HTTP status follows from the error code (see ERROR_CODES).
  */
 export class AppError extends Error {
+  public readonly code: ErrorCode;
   public readonly statusCode: number;
-  public readonly isOperational: boolean;
+  public readonly details?: unknown;
 
-  constructor(message: string, statusCode: number = 500, isOperational: boolean = true) {
+  constructor(message: string, code: ErrorCode = "INTERNAL_ERROR", details?: unknown) {
     super(message);
-    this.statusCode = statusCode;
-    this.isOperational = isOperational;
+    this.code = code;
+    this.statusCode = ERROR_CODES[code];
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+/**
+ * Wrap a failed database operation, with the error code its SQLSTATE maps to
+ * @param operation - What was being done, e.g. "Failed to fetch batch"
+ * @param error - The error raised by the database driver
+ */
+export function databaseError(operation: string, error: unknown): AppError {
+  return new AppError(
+    formatErrorMessage(operation, getErrorMessage(error)),
+    getDatabaseErrorCode(error)
+  );
+}
+
 /**
  * Create a standardized error response object
  */
 export function createErrorResponse(
   error: string,
+  code: ErrorCode,
   message?: string,
-  _statusCode: number = 500
+  details?: unknown,
+  requestId?: string
 ): ErrorResponse {
-  return {
+  const response: ErrorResponse = {
     success: false,
     error,
+    code,
     message: message || error,
   };
+
+  if (requestId) {
+    response.requestId = requestId;
+  }
+
+  if (details !== undefined) {
+    response.details = details;
+  }
+
+  return response;
 }
 
 /**
@@ -55,16 +84,17 @@ export function createSuccessResponse<T>(
 }
 
 /**
- * Send error response to client
+ * Send error response to client, with the status of its error code and the request's ID
  */
 export function sendErrorResponse(
   res: Response,
   error: string,
-  statusCode: number = 500,
-  message?: string
+  code: ErrorCode = "INTERNAL_ERROR",
+  message?: string,
+  details?: unknown
 ): void {
-  const errorResponse = createErrorResponse(error, message, statusCode);
-  res.status(statusCode).json(errorResponse);
+  const errorResponse = createErrorResponse(error, code, message, details, res.req.requestId);
+  res.status(ERROR_CODES[code]).json(errorResponse);
 }
 
 /**
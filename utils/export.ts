@@ -0,0 +1,127 @@
+// Serialisation of exported rows as CSV, NDJSON or a JSON array
+import { Transform } from "stream";
+import type { ExportRow } from "../db/batchExport";
+
+/**
+ * Formats a batch can be exported in
+ */
+export const EXPORT_FORMATS = ["csv", "ndjson", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Content type of each export format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+// Leading characters that make spreadsheet applications evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const CSV_QUOTE_PATTERN = /[",\r\n]|^\s|\s$/;
+
+/**
+ * Format one value as a CSV field
+ * - null and missing values are empty, objects and arrays are written as JSON
+ * - text that would be read as a formula (=, +, -, @, tab, CR) is prefixed with '
+ *   so that opening the file cannot run it; numeric text such as "-5" is left alone
+ * - fields with quotes, commas, line breaks or edge whitespace are quoted (RFC 4180)
+ * @param value - Cell value from the row's JSON
+ * @returns string
+ */
+export function formatCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+
+  if (typeof value === "string" && FORMULA_PREFIX.test(text) && !NUMBER_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+
+  return CSV_QUOTE_PATTERN.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format a list of values as one CSV record, terminated with CRLF
+ */
+function csvRecord(values: unknown[]): string {
+  return `${values.map(formatCsvValue).join(",")}\r\n`;
+}
+
+/**
+ * CSV writer: a header record, then one record per row with the given columns
+ * Keys a row does not have are left empty; keys outside columns are not written
+ * @param columns - Column names in output order
+ * @returns Transform - ExportRow objects in, CSV text out
+ */
+export function createCsvTransform(columns: string[]): Transform {
+  let headerWritten = false;
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(row: ExportRow, _encoding, callback) {
+      const header = headerWritten ? "" : csvRecord(columns);
+      headerWritten = true;
+      callback(null, header + csvRecord(columns.map((column) => row.data[column])));
+    },
+    flush(callback) {
+      // An empty export still gets its header
+      callback(null, headerWritten ? "" : csvRecord(columns));
+    },
+  });
+}
+
+/**
+ * NDJSON writer: one JSON object per line
+ * @returns Transform - ExportRow objects in, NDJSON text out
+ */
+export function createNdjsonTransform(): Transform {
+  return new Transform({
+    writableObjectMode: true,
+    transform(row: ExportRow, _encoding, callback) {
+      callback(null, `${JSON.stringify(row.data)}\n`);
+    },
+  });
+}
+
+/**
+ * JSON writer: a single array of row objects, written incrementally
+ * @returns Transform - ExportRow objects in, JSON text out
+ */
+export function createJsonArrayTransform(): Transform {
+  let first = true;
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(row: ExportRow, _encoding, callback) {
+      const prefix = first ? "[\n" : ",\n";
+      first = false;
+      callback(null, prefix + JSON.stringify(row.data));
+    },
+    flush(callback) {
+      callback(null, first ? "[]\n" : "\n]\n");
+    },
+  });
+}
+
+/**
+ * Create the writer for an export format
+ * @param format - Export format
+ * @param columns - Column order (used by CSV only)
+ * @returns Transform
+ */
+export function createExportTransform(format: ExportFormat, columns: string[]): Transform {
+  switch (format) {
+    case "csv":
+      return createCsvTransform(columns);
+    case "ndjson":
+      return createNdjsonTransform();
+    case "json":
+      return createJsonArrayTransform();
+  }
+}
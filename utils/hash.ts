@@ -0,0 +1,77 @@
+// Stable hashing of JSON payloads
+import { createHash } from "crypto";
+
+/**
+ * Serialize a JSON value with object keys sorted, so equal payloads always
+ * produce the same string regardless of key order
+ * @param value - Any JSON-compatible value
+ * @returns string
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * SHA-256 hex digest of a JSON value, independent of object key order
+ * @param value - Any JSON-compatible value
+ * @returns string - 64-character hex digest
+ */
+export function hashJson(value: unknown): string {
+  return createHash("sha256").update(stableStringify(value)).digest("hex");
+}
+
+/**
+ * Incremental hash over a sequence of rows
+ */
+export interface RowHasher {
+  update(row: unknown): void;
+  digest(): string;
+}
+
+/**
+ * Create an incremental row hasher
+ * Rows are hashed one at a time, so streamed uploads hash the same as buffered ones
+ * @returns RowHasher
+ */
+export function createRowHasher(): RowHasher {
+  const hash = createHash("sha256");
+
+  return {
+    update(row: unknown): void {
+      hash.update(stableStringify(row));
+      hash.update("\n");
+    },
+    digest(): string {
+      return hash.digest("hex");
+    },
+  };
+}
+
+/**
+ * Content hash of an upload's rows, independent of object key order
+ * Row order matters: the same rows in another order hash differently
+ * @param rows - Rows of the upload
+ * @returns string - 64-character hex digest
+ */
+export function hashRows(rows: unknown[]): string {
+  const hasher = createRowHasher();
+  rows.forEach((row) => hasher.update(row));
+  return hasher.digest();
+}
@@ -0,0 +1,173 @@
+// Parsing of streamed (CSV and NDJSON) request bodies into rows
+import { Transform, type Readable, type Writable } from "stream";
+import { StringDecoder } from "string_decoder";
+import { parse } from "csv-parse";
+import type { Request } from "express";
+import type { SheetDataRow, StreamedRow } from "../types";
+import { AppError, getErrorMessage } from "./errors";
+import { normalizeHeaders } from "./sheetValues";
+
+/**
+ * Body formats that are parsed as a stream instead of by express.json
+ */
+export const STREAMED_BODY_FORMATS = ["csv", "ndjson"] as const;
+
+export type StreamedBodyFormat = (typeof STREAMED_BODY_FORMATS)[number];
+
+// Longest NDJSON line accepted, so a missing newline cannot exhaust memory
+const MAX_NDJSON_LINE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Work out whether a request body is to be streamed, from its Content-Type
+ * @param req - Express request
+ * @returns StreamedBodyFormat | null - null for JSON and other bodies
+ */
+export function streamedBodyFormat(req: Request): StreamedBodyFormat | null {
+  if (req.is("text/csv")) {
+    return "csv";
+  }
+  if (req.is(["application/x-ndjson", "application/ndjson"])) {
+    return "ndjson";
+  }
+  return null;
+}
+
+/**
+ * Pipe a body into a parser, passing read errors on
+ * pipeline() is not used on purpose: it would destroy the request (and its socket) when
+ * parsing stops early, leaving no way to send the error response
+ */
+function pipeInto<T extends Writable>(input: Readable, target: T): T {
+  input.once("error", (error) => target.destroy(error));
+  return input.pipe(target);
+}
+
+/**
+ * Pass a stream through unchanged while reporting every chunk
+ * @param input - Source stream
+ * @param onChunk - Called with each chunk before it is passed on
+ * @returns Readable
+ */
+export function observeChunks(input: Readable, onChunk: (chunk: Buffer) => void): Readable {
+  const observer = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onChunk(chunk);
+      callback(null, chunk);
+    },
+  });
+  return pipeInto(input, observer);
+}
+
+/**
+ * Parse a CSV body: the first record is the header, each following record a row
+ * Header names are made unique as for values uploads (blank cells are named after their
+ * column letter, repeats get a suffix). Values are kept as strings. Short records leave their last columns out of the row;
+ * records with more values than the header become row errors.
+ * @param input - Body stream
+ * @returns AsyncGenerator<StreamedRow>
+ * @throws AppError (400) when the CSV is malformed
+ */
+export async function* parseCsvRows(input: Readable): AsyncGenerator<StreamedRow> {
+  const parser = pipeInto(
+    input,
+    parse({ bom: true, relax_column_count: true, skip_empty_lines: true })
+  );
+
+  let header: string[] | null = null;
+
+  try {
+    for await (const record of parser as AsyncIterable<string[]>) {
+      if (!header) {
+        header = normalizeHeaders(record);
+        continue;
+      }
+
+      const data: SheetDataRow = {};
+      header.forEach((column, index) => {
+        if (index < record.length) {
+          data[column] = record[index];
+        }
+      });
+
+      yield record.length > header.length
+        ? {
+            data,
+            error: `Row has ${record.length} values but the header has ${header.length} columns`,
+          }
+        : { data };
+    }
+  } catch (error: unknown) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError(`Invalid CSV body: ${getErrorMessage(error)}`, "INVALID_REQUEST");
+  }
+}
+
+/**
+ * Turn one NDJSON line into a row; lines that are not JSON objects become row errors
+ */
+function parseNdjsonLine(line: string): StreamedRow {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch (error: unknown) {
+    return { data: { line: line.slice(0, 200) }, error: `Invalid JSON: ${getErrorMessage(error)}` };
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { data: { line: line.slice(0, 200) }, error: "Row must be a JSON object" };
+  }
+
+  return { data: value as SheetDataRow };
+}
+
+/**
+ * Parse an NDJSON body: one JSON object per line, blank lines ignored
+ * @param input - Body stream
+ * @returns AsyncGenerator<StreamedRow>
+ * @throws AppError (400) when a line exceeds the maximum length
+ */
+export async function* parseNdjsonRows(input: Readable): AsyncGenerator<StreamedRow> {
+  const decoder = new StringDecoder("utf8");
+  let buffered = "";
+
+  // Stopping early leaves the request open, so the error response can still be sent
+  for await (const chunk of input.iterator({ destroyOnReturn: false })) {
+    buffered += typeof chunk === "string" ? chunk : decoder.write(chunk as Buffer);
+
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+
+    if (Buffer.byteLength(buffered) > MAX_NDJSON_LINE_BYTES) {
+      throw new AppError(
+        `NDJSON lines cannot be longer than ${MAX_NDJSON_LINE_BYTES} bytes`,
+        "INVALID_REQUEST"
+      );
+    }
+
+    for (const line of lines) {
+      if (line.trim() !== "") {
+        yield parseNdjsonLine(line);
+      }
+    }
+  }
+
+  buffered += decoder.end();
+  if (buffered.trim() !== "") {
+    yield parseNdjsonLine(buffered);
+  }
+}
+
+/**
+ * Parse a streamed body in the given format
+ * @param format - Body format
+ * @param input - Body stream
+ * @returns AsyncGenerator<StreamedRow>
+ */
+export function parseStreamedRows(
+  format: StreamedBodyFormat,
+  input: Readable
+): AsyncGenerator<StreamedRow> {
+  return format === "csv" ? parseCsvRows(input) : parseNdjsonRows(input);
+}
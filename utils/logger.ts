@@ -0,0 +1,94 @@
+// Structured logging: one JSON object per line, carrying the request or job being handled
+import { AsyncLocalStorage } from "async_hooks";
+import { config, LOG_LEVELS, type LogLevel } from "./config";
+import { getErrorMessage } from "./errors";
+
+/**
+ * Correlation fields added to every line logged while handling a request or job
+ */
+export interface LogContext {
+  requestId?: string;
+  jobId?: number;
+}
+
+// Lines below this level are dropped
+const LOG_LEVEL = config.logLevel;
+
+// Row payloads are only logged when this is set; customer data stays out of logs otherwise
+const LOG_ROW_DATA = config.logRowData;
+
+// Fields holding row payloads
+const ROW_DATA_FIELDS = new Set(["data", "row", "rows", "rowData", "sheetData", "values"]);
+
+const context = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with fields added to the log context of everything it logs, including
+ * asynchronous work it starts
+ */
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Run fn outside of the current log context, for background work that a request only
+ * happens to start
+ */
+export function withoutLogContext<T>(fn: () => T): T {
+  return context.exit(fn);
+}
+
+/**
+ * Get the log context of the current request or job
+ */
+export function getLogContext(): LogContext {
+  return context.getStore() ?? {};
+}
+
+/**
+ * Make a field value safe to log: errors become their message and row payloads are
+ * redacted unless LOG_ROW_DATA is set
+ */
+function toLogValue(field: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return getErrorMessage(value);
+  }
+  if (ROW_DATA_FIELDS.has(field) && !LOG_ROW_DATA) {
+    return "[redacted]";
+  }
+  return value;
+}
+
+/**
+ * Write one log line to stdout (debug, info) or stderr (warn, error)
+ */
+function write(level: LogLevel, msg: string, fields: Record<string, unknown> = {}): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(LOG_LEVEL)) {
+    return;
+  }
+
+  const line: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...context.getStore(),
+  };
+  for (const [field, value] of Object.entries(fields)) {
+    line[field] = toLogValue(field, value);
+  }
+
+  const stream = level === "warn" || level === "error" ? process.stderr : process.stdout;
+  stream.write(`${JSON.stringify(line)}\n`);
+}
+
+/**
+ * Application logger
+ * Each method takes a fixed message and the variable parts as fields, e.g.
+ * logger.info("Inserted rows", { batchId, inserted }).
+ */
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>): void => write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>): void => write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>): void => write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>): void => write("error", msg, fields),
+};
@@ -0,0 +1,209 @@
+// Prometheus metrics: counters, histograms and gauges, rendered in the text exposition format
+
+type Labels = Record<string, string>;
+
+/**
+ * A metric that can render its samples
+ */
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Render a label set as {name="value",...}, or nothing when it is empty
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Key of a label set, with its labels in a fixed order
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Counter: a value that only goes up, per label set
+ */
+export class Counter {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(
+        (entry) => `${this.name}${formatLabels(entry.labels)} ${entry.value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Histogram: observations counted into cumulative buckets, per label set
+ */
+export class Histogram {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[]
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  /**
+   * Start a timer; calling the returned function observes the seconds elapsed, under
+   * labels that may depend on how the timed work ended
+   */
+  startTimer(): (labels: Labels) => void {
+    const started = process.hrtime.bigint();
+    return (labels) => this.observe(labels, Number(process.hrtime.bigint() - started) / 1e9);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const entry of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const labels = formatLabels({ ...entry.labels, le: String(bound) });
+        lines.push(`${this.name}_bucket${labels} ${entry.counts[index]}`);
+      });
+      const infLabels = formatLabels({ ...entry.labels, le: "+Inf" });
+      lines.push(`${this.name}_bucket${infLabels} ${entry.count}`);
+      lines.push(`${this.name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`${this.name}_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Gauge: a value read when metrics are scraped
+ */
+export class Gauge {
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => number
+  ) {
+    registry.push(this);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.collect()}`,
+    ];
+  }
+}
+
+/**
+ * Every registered metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  return `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+}
+
+/**
+ * Finished uploads, by how they were sent and the status of their batch
+ */
+export const uploadsTotal = new Counter(
+  "sparti_uploads_total",
+  "Uploads finished, by type (json, stream, session) and batch status"
+);
+
+/**
+ * Rows stored in sheet_data, including rows stored by replays
+ */
+export const rowsInsertedTotal = new Counter(
+  "sparti_rows_inserted_total",
+  "Rows stored, by type (json, stream, session, replay)"
+);
+
+/**
+ * Rows that failed the row schema or their insert
+ */
+export const rowsRejectedTotal = new Counter(
+  "sparti_rows_rejected_total",
+  "Rows rejected by the row schema or the database, by type (json, stream, session, replay)"
+);
+
+/**
+ * Duration of each insert statement, failed ones included
+ */
+export const insertDurationSeconds = new Histogram(
+  "sparti_insert_duration_seconds",
+  "Duration of sheet_data insert statements, by method (copy, insert) and outcome",
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+/**
+ * Count a finished upload and its rows
+ * @param type - How the upload was sent: json, stream or session
+ * @param status - Final status of its batch
+ * @param inserted - Rows stored
+ * @param rejected - Rows rejected
+ */
+export function recordUpload(
+  type: string,
+  status: string,
+  inserted: number,
+  rejected: number
+): void {
+  uploadsTotal.inc({ type, status });
+  rowsInsertedTotal.inc({ type }, inserted);
+  rowsRejectedTotal.inc({ type }, rejected);
+}
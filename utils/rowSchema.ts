@@ -0,0 +1,444 @@
+// Row schemas: per-dataset column rules that incoming rows are checked against
+import type { FieldError, RowError, SheetDataRow } from "../types";
+import { AppError } from "./errors";
+
+/**
+ * Value types a column can be declared with
+ * - date: "YYYY-MM-DD" string
+ * - datetime: ISO 8601 date and time string
+ * - any: no type check, only the required check applies
+ */
+export const COLUMN_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "date",
+  "datetime",
+  "any",
+] as const;
+
+export type ColumnType = (typeof COLUMN_TYPES)[number];
+
+/**
+ * Compiled rules for one column
+ */
+export interface ColumnRule {
+  type: ColumnType;
+  required: boolean;
+  enum?: unknown[];
+  pattern?: RegExp;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * Compiled row schema, built from either registration format
+ * - columns: Rules keyed by column name
+ * - additionalColumns: Whether rows may carry columns the schema does not list
+ */
+export interface RowSchema {
+  columns: Map<string, ColumnRule>;
+  additionalColumns: boolean;
+}
+
+// JSON Schema keywords understood on a property, and on the schema itself
+const JSON_SCHEMA_PROPERTY_KEYWORDS = new Set([
+  "type",
+  "enum",
+  "const",
+  "pattern",
+  "format",
+  "minimum",
+  "maximum",
+  "minLength",
+  "maxLength",
+  "title",
+  "description",
+]);
+const JSON_SCHEMA_ROOT_KEYWORDS = new Set([
+  "$schema",
+  "$id",
+  "type",
+  "title",
+  "description",
+  "properties",
+  "required",
+  "additionalProperties",
+]);
+const COLUMN_SPEC_KEYWORDS = new Set([
+  "type",
+  "required",
+  "enum",
+  "pattern",
+  "min",
+  "max",
+  "minLength",
+  "maxLength",
+  "description",
+]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalidSchema(message: string): AppError {
+  return new AppError(`Invalid row schema: ${message}`, "INVALID_ROW_SCHEMA");
+}
+
+function optionalNumber(value: unknown, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw invalidSchema(`${label} must be a number`);
+  }
+  return value;
+}
+
+function optionalPattern(value: unknown, label: string): RegExp | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw invalidSchema(`${label} must be a string`);
+  }
+  try {
+    return new RegExp(value, "u");
+  } catch {
+    throw invalidSchema(`${label} is not a valid regular expression`);
+  }
+}
+
+function optionalEnum(value: unknown, label: string): unknown[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalidSchema(`${label} must be a non-empty array`);
+  }
+  return value;
+}
+
+function checkKeywords(spec: Record<string, unknown>, allowed: Set<string>, label: string): void {
+  const unsupported = Object.keys(spec).filter((keyword) => !allowed.has(keyword));
+  if (unsupported.length > 0) {
+    throw invalidSchema(`${label} uses unsupported keywords: ${unsupported.join(", ")}`);
+  }
+}
+
+/**
+ * Map a JSON Schema property's type (and format) onto a column type
+ * "null" in a type list is dropped: blank cells are accepted on optional columns anyway
+ */
+function jsonSchemaColumnType(type: unknown, format: unknown, label: string): ColumnType {
+  const types = type === undefined ? [] : Array.isArray(type) ? type : [type];
+  const nonNull = types.filter((entry) => entry !== "null");
+
+  if (nonNull.length > 1) {
+    throw invalidSchema(`${label}.type may name only one type besides "null"`);
+  }
+
+  const [base] = nonNull;
+  if (base === undefined) {
+    return "any";
+  }
+  if (base === "string") {
+    if (format === "date") {
+      return "date";
+    }
+    if (format === "date-time") {
+      return "datetime";
+    }
+    if (format !== undefined) {
+      throw invalidSchema(`${label}.format "${String(format)}" is not supported`);
+    }
+    return "string";
+  }
+  if (base === "number" || base === "integer" || base === "boolean") {
+    return base;
+  }
+  throw invalidSchema(`${label}.type "${String(base)}" is not supported`);
+}
+
+function compileJsonSchema(input: Record<string, unknown>): RowSchema {
+  checkKeywords(input, JSON_SCHEMA_ROOT_KEYWORDS, "schema");
+
+  if (input.type !== undefined && input.type !== "object") {
+    throw invalidSchema('type must be "object"');
+  }
+
+  const properties = input.properties ?? {};
+  if (!isPlainObject(properties)) {
+    throw invalidSchema("properties must be an object");
+  }
+
+  const required = input.required ?? [];
+  if (!Array.isArray(required) || required.some((name) => typeof name !== "string")) {
+    throw invalidSchema("required must be an array of column names");
+  }
+
+  if (input.additionalProperties !== undefined && typeof input.additionalProperties !== "boolean") {
+    throw invalidSchema("additionalProperties must be a boolean");
+  }
+
+  const columns = new Map<string, ColumnRule>();
+  for (const [name, property] of Object.entries(properties)) {
+    const label = `properties.${name}`;
+    if (!isPlainObject(property)) {
+      throw invalidSchema(`${label} must be an object`);
+    }
+    checkKeywords(property, JSON_SCHEMA_PROPERTY_KEYWORDS, label);
+
+    columns.set(name, {
+      type: jsonSchemaColumnType(property.type, property.format, label),
+      required: required.includes(name),
+      enum: property.const !== undefined ? [property.const] : optionalEnum(property.enum, `${label}.enum`),
+      pattern: optionalPattern(property.pattern, `${label}.pattern`),
+      min: optionalNumber(property.minimum, `${label}.minimum`),
+      max: optionalNumber(property.maximum, `${label}.maximum`),
+      minLength: optionalNumber(property.minLength, `${label}.minLength`),
+      maxLength: optionalNumber(property.maxLength, `${label}.maxLength`),
+    });
+  }
+
+  for (const name of required as string[]) {
+    if (!columns.has(name)) {
+      columns.set(name, { type: "any", required: true });
+    }
+  }
+
+  return { columns, additionalColumns: input.additionalProperties !== false };
+}
+
+function compileColumnSpec(input: Record<string, unknown>): RowSchema {
+  checkKeywords(input, new Set(["columns", "additionalColumns"]), "schema");
+
+  if (!isPlainObject(input.columns)) {
+    throw invalidSchema("columns must be an object");
+  }
+
+  if (input.additionalColumns !== undefined && typeof input.additionalColumns !== "boolean") {
+    throw invalidSchema("additionalColumns must be a boolean");
+  }
+
+  const columns = new Map<string, ColumnRule>();
+  for (const [name, entry] of Object.entries(input.columns)) {
+    const label = `columns.${name}`;
+    // Shorthand: "email": "string"
+    const spec = typeof entry === "string" ? { type: entry } : entry;
+    if (!isPlainObject(spec)) {
+      throw invalidSchema(`${label} must be a type name or an object`);
+    }
+    checkKeywords(spec, COLUMN_SPEC_KEYWORDS, label);
+
+    const type = spec.type ?? "any";
+    if (!COLUMN_TYPES.includes(type as ColumnType)) {
+      throw invalidSchema(`${label}.type must be one of: ${COLUMN_TYPES.join(", ")}`);
+    }
+    if (spec.required !== undefined && typeof spec.required !== "boolean") {
+      throw invalidSchema(`${label}.required must be a boolean`);
+    }
+
+    columns.set(name, {
+      type: type as ColumnType,
+      required: spec.required === true,
+      enum: optionalEnum(spec.enum, `${label}.enum`),
+      pattern: optionalPattern(spec.pattern, `${label}.pattern`),
+      min: optionalNumber(spec.min, `${label}.min`),
+      max: optionalNumber(spec.max, `${label}.max`),
+      minLength: optionalNumber(spec.minLength, `${label}.minLength`),
+      maxLength: optionalNumber(spec.maxLength, `${label}.maxLength`),
+    });
+  }
+
+  return { columns, additionalColumns: input.additionalColumns !== false };
+}
+
+/**
+ * Compile a registered row schema
+ * Two formats are accepted:
+ * - column spec: { columns: { email: { type: "string", required: true } }, additionalColumns?: boolean }
+ * - JSON Schema (object with properties/required/additionalProperties, flat properties only)
+ * @param input - Schema as registered
+ * @returns RowSchema
+ * @throws AppError (400) when the schema is malformed or uses unsupported keywords
+ */
+export function compileRowSchema(input: unknown): RowSchema {
+  if (!isPlainObject(input)) {
+    throw invalidSchema("schema must be an object");
+  }
+
+  return "columns" in input ? compileColumnSpec(input) : compileJsonSchema(input);
+}
+
+/**
+ * Whether a cell counts as empty: absent, null or a blank string
+ */
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+function typeError(rule: ColumnRule, value: unknown): string | null {
+  switch (rule.type) {
+    case "string":
+      return typeof value === "string" ? null : "must be a string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : "must be a number";
+    case "integer":
+      return Number.isInteger(value) ? null : "must be an integer";
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false";
+    case "date":
+      return typeof value === "string" && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+        ? null
+        : "must be a date (YYYY-MM-DD)";
+    case "datetime":
+      return typeof value === "string" && DATETIME_PATTERN.test(value) && !isNaN(Date.parse(value))
+        ? null
+        : "must be an ISO 8601 date-time";
+    default:
+      return null;
+  }
+}
+
+function checkColumn(rule: ColumnRule, value: unknown): string | null {
+  const mismatch = typeError(rule, value);
+  if (mismatch) {
+    return mismatch;
+  }
+
+  if (rule.enum && !rule.enum.some((allowed) => allowed === value)) {
+    return `must be one of: ${rule.enum.map(describeValue).join(", ")}`;
+  }
+
+  if (typeof value === "string") {
+    if (rule.pattern && !rule.pattern.test(value)) {
+      return `must match ${rule.pattern.source}`;
+    }
+    if (rule.minLength !== undefined && value.length < rule.minLength) {
+      return `must be at least ${rule.minLength} characters`;
+    }
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+      return `must be at most ${rule.maxLength} characters`;
+    }
+  }
+
+  if (typeof value === "number") {
+    if (rule.min !== undefined && value < rule.min) {
+      return `must be at least ${rule.min}`;
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      return `must be at most ${rule.max}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check one row against a schema
+ * Blank cells (missing, null or "") fail required columns and are accepted on optional ones
+ * @param schema - Compiled row schema
+ * @param row - Row to check
+ * @returns FieldError[] - One entry per failing column, empty when the row is valid
+ */
+export function validateRow(schema: RowSchema, row: SheetDataRow): FieldError[] {
+  const fieldErrors: FieldError[] = [];
+
+  for (const [field, rule] of schema.columns) {
+    const value = row[field];
+    if (isBlank(value)) {
+      if (rule.required) {
+        fieldErrors.push({ field, message: "is required" });
+      }
+      continue;
+    }
+
+    const message = checkColumn(rule, value);
+    if (message) {
+      fieldErrors.push({ field, message: `${message}, got ${describeValue(value)}` });
+    }
+  }
+
+  if (!schema.additionalColumns) {
+    for (const field of Object.keys(row)) {
+      if (!schema.columns.has(field)) {
+        fieldErrors.push({ field, message: "is not a column of this dataset" });
+      }
+    }
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Check every row of an upload against a schema
+ * @param schema - Compiled row schema
+ * @param rows - Rows of the upload (or chunk)
+ * @param firstRowNumber - Row number of rows[0]
+ * @returns RowError[] - One entry per rejected row, with field-level messages
+ */
+export function validateRows(
+  schema: RowSchema,
+  rows: SheetDataRow[],
+  firstRowNumber: number = 1
+): RowError[] {
+  const errors: RowError[] = [];
+
+  rows.forEach((row, index) => {
+    if (!isPlainObject(row)) {
+      errors.push({
+        rowIndex: index,
+        rowNumber: firstRowNumber + index,
+        rowData: row,
+        error: "Row failed schema validation: row must be an object",
+      });
+      return;
+    }
+
+    const fieldErrors = validateRow(schema, row);
+    if (fieldErrors.length > 0) {
+      errors.push({
+        rowIndex: index,
+        rowNumber: firstRowNumber + index,
+        rowData: row,
+        error: `Row failed schema validation: ${fieldErrors
+          .map((fieldError) => `${fieldError.field} ${fieldError.message}`)
+          .join("; ")}`,
+        fieldErrors,
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Strict mode check: every required column must be present as a key on every row
+ * A renamed or deleted sheet column shows up here, while blank cells do not
+ * @param schema - Compiled row schema
+ * @param rows - Rows of the upload (or chunk)
+ * @throws AppError (422) naming the missing columns
+ */
+export function assertRequiredColumns(schema: RowSchema, rows: SheetDataRow[]): void {
+  const missing = [...schema.columns]
+    .filter(([name, rule]) => rule.required && rows.some((row) => isPlainObject(row) && !(name in row)))
+    .map(([name]) => name);
+
+  if (missing.length > 0) {
+    throw new AppError(
+      `Upload rejected: required columns missing: ${missing.join(", ")}`,
+      "REQUIRED_COLUMNS_MISSING"
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// Helpers for working with the shape of uploaded rows
+import type { SheetDataRow } from "../types";
+
+/**
+ * Collect the column names of a set of rows in first-seen order
+ * Rows sent from Apps Script keep their keys in sheet order, which JSONB storage does not,
+ * so the order is worked out here and stored on the batch
+ * @param rows - Uploaded rows
+ * @param known - Columns already recorded (e.g. from earlier chunks), kept in front
+ * @returns string[] - known followed by any new columns
+ */
+export function collectColumns(rows: SheetDataRow[], known: string[] = []): string[] {
+  const seen = new Set(known);
+  const columns = [...known];
+
+  for (const row of rows) {
+    if (typeof row !== "object" || row === null || Array.isArray(row)) {
+      continue;
+    }
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+
+  return columns;
+}
@@ -0,0 +1,220 @@
+// Conversion of raw 2D sheet values (Range.getValues()) into row objects
+import { AppError } from "./errors";
+import type { SheetDataRow } from "../types";
+
+/**
+ * How header names are written as row keys
+ * - preserve: Trimmed, with runs of whitespace collapsed to one space
+ * - snake_case: Lower case words joined by underscores (e.g. "Order ID" becomes order_id)
+ */
+export const HEADER_CASES = ["preserve", "snake_case"] as const;
+
+export type HeaderCase = (typeof HEADER_CASES)[number];
+
+/**
+ * Values upload as sent by Apps Script
+ * - headers: Header names; when omitted the header is read from values
+ * - headerRow: 1-based row of values holding the header (default: the first non-blank row);
+ *   rows above it, such as a title, are ignored
+ * - mergedHeaders: Blank header cells belong to a merged header cell to their left
+ */
+export interface SheetValuesInput {
+  values: unknown[][];
+  headers?: unknown[];
+  headerRow?: number;
+  headerCase?: HeaderCase;
+  mergedHeaders?: boolean;
+}
+
+/**
+ * Rows built from a values upload, with the column names in sheet order
+ */
+export interface SheetValuesRows {
+  rows: SheetDataRow[];
+  columns: string[];
+}
+
+/**
+ * Names that cannot be used as row keys: assigning __proto__ on a plain object replaces its
+ * prototype instead of adding a column
+ * They are renamed like repeated names (__proto___2).
+ */
+const RESERVED_COLUMN_NAMES = ["__proto__"];
+
+/**
+ * A cell that Sheets would show as empty
+ */
+function isBlankCell(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Length of a row once trailing blank cells are left out
+ */
+function filledLength(row: unknown[]): number {
+  let length = row.length;
+  while (length > 0 && isBlankCell(row[length - 1])) {
+    length--;
+  }
+  return length;
+}
+
+/**
+ * Name of a sheet column from its 0-based index (0 is A, 26 is AA)
+ */
+function columnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Normalise one header name
+ */
+function normalizeHeader(value: unknown, headerCase: HeaderCase): string {
+  const text = String(value).trim().replace(/\s+/g, " ");
+  if (headerCase === "preserve") {
+    return text;
+  }
+
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Turn header cells into unique column names
+ * - A blank cell is named after its column letter (column_C), as is a header with nothing
+ *   left after snake_case conversion. With mergedHeaders, a blank cell takes the name of the
+ *   header to its left instead, since merged header cells leave every cell but the first blank
+ * - Repeated names get a numeric suffix: Amount, Amount_2, Amount_3, and so do reserved
+ *   names such as __proto__
+ * @param headers - Header cells, one per column
+ * @param headerCase - How names are written
+ * @param mergedHeaders - Whether blank cells continue the header to their left
+ * @returns string[]
+ */
+export function normalizeHeaders(
+  headers: unknown[],
+  headerCase: HeaderCase = "preserve",
+  mergedHeaders = false
+): string[] {
+  const used = new Set<string>(RESERVED_COLUMN_NAMES);
+  const columns: string[] = [];
+  let previous = "";
+
+  headers.forEach((cell, index) => {
+    const letterName = normalizeHeader(`column_${columnLetter(index)}`, headerCase);
+    let base: string;
+    if (isBlankCell(cell)) {
+      base = (mergedHeaders && previous) || letterName;
+    } else {
+      base = normalizeHeader(cell, headerCase) || letterName;
+      previous = base;
+    }
+
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+
+    used.add(name);
+    columns.push(name);
+  });
+
+  return columns;
+}
+
+/**
+ * Build row objects from a values upload
+ * Trailing blank rows and trailing blank columns are dropped. Blank rows between data
+ * rows are kept, so row numbers follow the sheet. Short rows are padded with "".
+ * @param input - Values, optional headers and header options
+ * @returns SheetValuesRows
+ * @throws AppError (400) when the input is malformed or has no data rows
+ */
+export function rowsFromSheetValues(input: SheetValuesInput): SheetValuesRows {
+  const { values, headers, headerRow, mergedHeaders = false } = input;
+  const headerCase = input.headerCase ?? "preserve";
+
+  if (!Array.isArray(values) || !values.every((row) => Array.isArray(row))) {
+    throw new AppError("values must be an array of arrays", "INVALID_REQUEST");
+  }
+
+  if (headers !== undefined && !Array.isArray(headers)) {
+    throw new AppError("headers must be an array", "INVALID_REQUEST");
+  }
+
+  if (headers !== undefined && headerRow !== undefined) {
+    throw new AppError("headerRow cannot be combined with headers", "INVALID_REQUEST");
+  }
+
+  const validHeaderRow =
+    headerRow === undefined ||
+    (Number.isInteger(headerRow) && headerRow >= 1 && headerRow <= values.length);
+  if (!validHeaderRow) {
+    throw new AppError(
+      `headerRow must be an integer between 1 and ${values.length}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  if (!HEADER_CASES.includes(headerCase)) {
+    throw new AppError(`headerCase must be one of: ${HEADER_CASES.join(", ")}`, "INVALID_REQUEST");
+  }
+
+  if (typeof mergedHeaders !== "boolean") {
+    throw new AppError("mergedHeaders must be a boolean", "INVALID_REQUEST");
+  }
+
+  // Separate the header from the data rows
+  let headerCells: unknown[];
+  let dataStart: number;
+  if (headers) {
+    headerCells = headers;
+    dataStart = 0;
+  } else {
+    const headerIndex =
+      headerRow !== undefined ? headerRow - 1 : values.findIndex((row) => filledLength(row) > 0);
+    if (headerIndex === -1) {
+      throw new AppError("values contains no header row", "INVALID_REQUEST");
+    }
+    headerCells = values[headerIndex];
+    dataStart = headerIndex + 1;
+  }
+
+  let dataEnd = values.length;
+  while (dataEnd > dataStart && filledLength(values[dataEnd - 1]) === 0) {
+    dataEnd--;
+  }
+
+  const dataRows = values.slice(dataStart, dataEnd);
+  if (dataRows.length === 0) {
+    throw new AppError("values contains no data rows", "INVALID_REQUEST");
+  }
+
+  // Columns run to the last one with a header or a value
+  const width = dataRows.reduce(
+    (widest, row) => Math.max(widest, filledLength(row)),
+    filledLength(headerCells)
+  );
+  const columns = normalizeHeaders(
+    Array.from({ length: width }, (_, index) => headerCells[index]),
+    headerCase,
+    mergedHeaders
+  );
+
+  const rows = dataRows.map((row) => {
+    const data: SheetDataRow = {};
+    columns.forEach((column, index) => {
+      data[column] = row[index] ?? "";
+    });
+    return data;
+  });
+
+  return { rows, columns };
+}
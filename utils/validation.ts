@@ -0,0 +1,725 @@
+// Request validation helpers shared by the API routes
+import { AppError } from "./errors";
+import {
+  API_KEY_SCOPES,
+  BATCH_STATUSES,
+  UPLOAD_MODES,
+  WEBHOOK_DELIVERY_STATUSES,
+  type ApiKeyScope,
+  type BatchStatus,
+  type UploadMode,
+  type WebhookDeliveryStatus,
+} from "../db/schema";
+import { UNCOMMITTED_BATCH_STATUSES } from "../db/batches";
+import { ROW_FILTER_OPERATORS, type RowFilterOperator } from "../db/batchQuery";
+import { BATCH_CHANGE_TYPES, type BatchChangeType } from "../db/batchDiff";
+import { EXPORT_FORMATS, type ExportFormat } from "./export";
+import {
+  COLUMN_TYPE_HINTS,
+  DATE_ORDERS,
+  isValidTimezone,
+  type ColumnTypeHint,
+  type DateOrder,
+} from "./coercion";
+import type {
+  BatchDiffQuery,
+  BatchListFilters,
+  CurrentRecordListFilters,
+  BatchRowQuery,
+  BatchSource,
+  RejectedRowFilters,
+  RejectionReplay,
+  RowFilter,
+  RowSort,
+  SheetDataRow,
+  WebhookDeliveryFilters,
+  WebhookRegistration,
+} from "../types";
+
+const MAX_SOURCE_FIELD_LENGTH = 255;
+const MAX_TAGS = 50;
+const MAX_ROW_PAGE_SIZE = 10000;
+const MAX_ROW_FILTERS = 20;
+const MAX_FILTER_VALUES = 100;
+const MAX_TYPED_COLUMNS = 500;
+const DEFAULT_DIFF_PAGE_SIZE = 1000;
+const MAX_WEBHOOK_URL_LENGTH = 2048;
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+/**
+ * Read an optional, non-empty string field
+ * @throws AppError (400) when the value is present but not a usable string
+ */
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new AppError(`${field} must be a non-empty string`, "INVALID_REQUEST");
+  }
+
+  if (value.length > MAX_SOURCE_FIELD_LENGTH) {
+    throw new AppError(
+      `${field} must be at most ${MAX_SOURCE_FIELD_LENGTH} characters`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return value.trim();
+}
+
+/**
+ * Read the optional tags list, accepting an array of strings or a comma-separated string
+ * @throws AppError (400) when the tags are malformed
+ */
+function optionalTags(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const rawTags = typeof value === "string" ? value.split(",") : value;
+
+  if (!Array.isArray(rawTags) || rawTags.some((tag) => typeof tag !== "string")) {
+    throw new AppError("tags must be an array of strings", "INVALID_REQUEST");
+  }
+
+  const tags = Array.from(
+    new Set((rawTags as string[]).map((tag) => tag.trim()).filter((tag) => tag !== ""))
+  );
+
+  if (tags.length > MAX_TAGS) {
+    throw new AppError(`tags cannot contain more than ${MAX_TAGS} entries`, "INVALID_REQUEST");
+  }
+
+  return tags;
+}
+
+/**
+ * Extract upload source metadata from a request body
+ * @param input - Request body (or any object carrying the source fields)
+ * @returns BatchSource - The validated metadata
+ * @throws AppError (400) when a field is malformed
+ */
+export function parseBatchSource(input: Record<string, unknown>): BatchSource {
+  return {
+    spreadsheetId: optionalString(input.spreadsheetId, "spreadsheetId"),
+    sheetName: optionalString(input.sheetName, "sheetName"),
+    uploadedBy: optionalString(input.uploadedBy, "uploadedBy"),
+    tags: optionalTags(input.tags),
+  };
+}
+
+/**
+ * Parse an optional upload mode
+ * @param value - Mode from the request body or query string
+ * @returns UploadMode | undefined
+ * @throws AppError (400) when the value is not a known mode
+ */
+export function parseUploadMode(value: unknown): UploadMode | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  if (!UPLOAD_MODES.includes(value as UploadMode)) {
+    throw new AppError(
+      `Invalid mode: ${String(value)}. Must be one of: ${UPLOAD_MODES.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return value as UploadMode;
+}
+
+/**
+ * Parse a source's column type hints, e.g. { "amount": "currency", "created": "datetime" }
+ * @param value - Hints from the request body; null clears them
+ * @returns Record<string, ColumnTypeHint> | null | undefined - undefined when not given
+ * @throws AppError (400) when the value is not an object of known hints
+ */
+export function parseColumnTypes(value: unknown): Record<string, ColumnTypeHint> | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new AppError(
+      "columnTypes must be an object of column names to type hints",
+      "INVALID_REQUEST"
+    );
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_TYPED_COLUMNS) {
+    throw new AppError(
+      `columnTypes cannot contain more than ${MAX_TYPED_COLUMNS} columns`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  for (const [column, hint] of entries) {
+    if (!COLUMN_TYPE_HINTS.includes(hint as ColumnTypeHint)) {
+      throw new AppError(
+        `Invalid type for column ${column}: ${String(hint)}. Must be one of: ${COLUMN_TYPE_HINTS.join(", ")}`,
+        "INVALID_REQUEST"
+      );
+    }
+  }
+
+  return value as Record<string, ColumnTypeHint>;
+}
+
+/**
+ * Parse a sheet timezone
+ * @param value - IANA timezone name (e.g. "Europe/Berlin"); null resets it to UTC
+ * @returns string | null | undefined - undefined when not given
+ * @throws AppError (400) when the timezone is not known
+ */
+export function parseTimezone(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== "string" || !isValidTimezone(value)) {
+    throw new AppError(
+      `Invalid timezone: ${String(value)}. Must be an IANA name such as Europe/Berlin`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Parse the day/month order of display dates
+ * @param value - Date order from the request body
+ * @returns DateOrder | undefined - undefined when not given
+ * @throws AppError (400) when the value is not a known order
+ */
+export function parseDateOrder(value: unknown): DateOrder | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!DATE_ORDERS.includes(value as DateOrder)) {
+    throw new AppError(
+      `Invalid dateOrder: ${String(value)}. Must be one of: ${DATE_ORDERS.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return value as DateOrder;
+}
+
+/**
+ * Parse the key column of a source
+ * @param value - Data field identifying a record; null stops keeping current records
+ * @returns string | null | undefined - undefined when not given
+ * @throws AppError (400) when the value is not a usable field name
+ */
+export function parseKeyColumn(value: unknown): string | null | undefined {
+  return value === null ? null : optionalString(value, "keyColumn");
+}
+
+/**
+ * Parse a retention rule of a source (retainBatches or retainDays)
+ * @param value - Number of batches or days; 0 keeps every batch, null uses the server default
+ * @param field - Field name, for error messages
+ * @returns number | null | undefined - undefined when not given
+ * @throws AppError (400) when the value is not a non-negative integer
+ */
+export function parseRetentionRule(value: unknown, field: string): number | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new AppError(
+      `Invalid ${field}: ${String(value)}. Must be a non-negative integer.`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Parse the export format, defaulting to CSV
+ * @param value - Format from the query string
+ * @returns ExportFormat
+ * @throws AppError (400) when the value is not a known format
+ */
+export function parseExportFormat(value: unknown): ExportFormat {
+  if (value === undefined || value === "") {
+    return "csv";
+  }
+
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new AppError(
+      `Invalid format: ${String(value)}. Must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return value as ExportFormat;
+}
+
+/**
+ * Parse the scopes for a new API key
+ * @param value - Array of scopes, or a comma-separated string
+ * @returns ApiKeyScope[] - At least one valid scope, without duplicates
+ * @throws AppError (400) when the list is empty or contains an unknown scope
+ */
+export function parseApiKeyScopes(value: unknown): ApiKeyScope[] {
+  const rawScopes = typeof value === "string" ? value.split(",") : value;
+
+  if (!Array.isArray(rawScopes) || rawScopes.length === 0) {
+    throw new AppError(
+      `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  const scopes = rawScopes.map((scope) => (typeof scope === "string" ? scope.trim() : scope));
+  const invalid = scopes.filter((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+
+  if (invalid.length > 0) {
+    throw new AppError(
+      `Invalid scopes: ${invalid.join(", ")}. Must be one of: ${API_KEY_SCOPES.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return Array.from(new Set(scopes as ApiKeyScope[]));
+}
+
+/**
+ * Parse an optional boolean flag from a JSON body or query string
+ * @param value - true/false, or "true"/"false" from a query string
+ * @param field - Field name for error messages
+ * @returns boolean | undefined
+ * @throws AppError (400) when the value is not a boolean
+ */
+export function optionalBoolean(value: unknown, field: string): boolean | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+
+  throw new AppError(`${field} must be true or false`, "INVALID_REQUEST");
+}
+
+/**
+ * Parse an optional positive integer query parameter
+ * @throws AppError (400) when the value is not a positive integer
+ */
+export function optionalPositiveInt(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  const parsed = typeof value === "string" || typeof value === "number" ? Number(value) : NaN;
+
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new AppError(
+      `Invalid ${field}: ${String(value)}. Must be a positive integer.`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse a required positive integer (route parameters such as batch IDs)
+ * @throws AppError (400) when the value is missing or not a positive integer
+ */
+export function requirePositiveInt(value: unknown, field: string): number {
+  const parsed = optionalPositiveInt(value, field);
+
+  if (parsed === undefined) {
+    throw new AppError(`${field} is required`, "INVALID_REQUEST");
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse an optional ISO 8601 date query parameter
+ * @throws AppError (400) when the value is not a valid date
+ */
+function optionalDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = typeof value === "string" ? new Date(value) : null;
+
+  if (!parsed || isNaN(parsed.getTime())) {
+    throw new AppError(
+      `Invalid ${field}: ${String(value)}. Must be an ISO 8601 date.`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse the query string of GET /api/batches
+ * @param query - Express request query object
+ * @returns BatchListFilters - The validated filters
+ * @throws AppError (400) when a parameter is malformed
+ */
+export function parseBatchListFilters(query: Record<string, unknown>): BatchListFilters {
+  const status = query.status;
+  const listableStatuses = BATCH_STATUSES.filter(
+    (value) => !UNCOMMITTED_BATCH_STATUSES.includes(value)
+  );
+  if (status !== undefined && !listableStatuses.includes(status as BatchStatus)) {
+    throw new AppError(
+      `Invalid status: ${String(status)}. Must be one of: ${listableStatuses.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  const from = optionalDate(query.from, "from");
+  const to = optionalDate(query.to, "to");
+  if (from && to && from > to) {
+    throw new AppError("from must be earlier than to", "INVALID_REQUEST");
+  }
+
+  return {
+    spreadsheetId: optionalString(query.spreadsheetId, "spreadsheetId"),
+    sheetName: optionalString(query.sheetName, "sheetName"),
+    uploadedBy: optionalString(query.uploadedBy, "uploadedBy"),
+    tags: optionalTags(query.tag ?? query.tags),
+    status: status as BatchStatus | undefined,
+    from,
+    to,
+    deleted: optionalBoolean(query.deleted, "deleted"),
+    cursor: optionalPositiveInt(query.cursor, "cursor"),
+    limit: optionalPositiveInt(query.limit, "limit"),
+  };
+}
+
+/**
+ * Read a list of data field names, as an array or a comma-separated string
+ * @throws AppError (400) when a name is empty or too long
+ */
+function optionalFieldList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const rawNames = typeof value === "string" ? value.split(",") : value;
+
+  if (!Array.isArray(rawNames) || rawNames.some((name) => typeof name !== "string")) {
+    throw new AppError(`${field} must be a comma-separated list of field names`, "INVALID_REQUEST");
+  }
+
+  const names = Array.from(new Set((rawNames as string[]).map((name) => name.trim())));
+
+  if (names.some((name) => name === "" || name.length > MAX_SOURCE_FIELD_LENGTH)) {
+    throw new AppError(`${field} contains an empty or overlong field name`, "INVALID_REQUEST");
+  }
+
+  return names;
+}
+
+/**
+ * Parse the sort parameter: a data field, "-" prefixed for descending order
+ * "rowNumber" (the default) sorts by position in the sheet
+ */
+function optionalRowSort(value: unknown): RowSort | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  if (typeof value !== "string") {
+    throw new AppError("sort must be a single field name", "INVALID_REQUEST");
+  }
+
+  const descending = value.startsWith("-");
+  const field = descending ? value.slice(1) : value;
+
+  if (field === "" || field.length > MAX_SOURCE_FIELD_LENGTH) {
+    throw new AppError(`Invalid sort: ${value}`, "INVALID_REQUEST");
+  }
+
+  return { field: field === "rowNumber" ? null : field, descending };
+}
+
+/**
+ * Parse filter[field]=value and filter[field][operator]=value parameters
+ * @throws AppError (400) on unknown operators or malformed values
+ */
+function optionalRowFilters(value: unknown): RowFilter[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new AppError(
+      "filter must be given as filter[field]=value or filter[field][operator]=value",
+      "INVALID_REQUEST"
+    );
+  }
+
+  const filters: RowFilter[] = [];
+  for (const [field, spec] of Object.entries(value as Record<string, unknown>)) {
+    if (field === "" || field.length > MAX_SOURCE_FIELD_LENGTH) {
+      throw new AppError("filter contains an empty or overlong field name", "INVALID_REQUEST");
+    }
+
+    // filter[status]=open is shorthand for filter[status][eq]=open
+    const operations =
+      typeof spec === "object" && spec !== null && !Array.isArray(spec)
+        ? Object.entries(spec as Record<string, unknown>)
+        : [["eq", spec] as const];
+
+    for (const [operator, operand] of operations) {
+      if (!ROW_FILTER_OPERATORS.includes(operator as RowFilterOperator)) {
+        throw new AppError(
+          `Invalid filter operator for ${field}: ${operator}. Must be one of: ${ROW_FILTER_OPERATORS.join(", ")}`,
+          "INVALID_REQUEST"
+        );
+      }
+
+      const values = (Array.isArray(operand) ? operand : [operand]).flatMap((entry) =>
+        operator === "in" && typeof entry === "string" ? entry.split(",") : [entry]
+      );
+
+      if (values.length === 0 || values.some((entry) => typeof entry !== "string")) {
+        throw new AppError(`filter[${field}][${operator}] must be a string`, "INVALID_REQUEST");
+      }
+
+      if (operator !== "in" && values.length > 1) {
+        throw new AppError(`filter[${field}][${operator}] takes a single value`, "INVALID_REQUEST");
+      }
+
+      if (values.length > MAX_FILTER_VALUES) {
+        throw new AppError(
+          `filter[${field}][in] cannot contain more than ${MAX_FILTER_VALUES} values`,
+          "INVALID_REQUEST"
+        );
+      }
+
+      filters.push({
+        field,
+        operator: operator as RowFilterOperator,
+        value: operator === "in" ? (values as string[]) : (values[0] as string),
+      });
+    }
+  }
+
+  if (filters.length > MAX_ROW_FILTERS) {
+    throw new AppError(`Cannot apply more than ${MAX_ROW_FILTERS} filters`, "INVALID_REQUEST");
+  }
+
+  return filters;
+}
+
+/**
+ * Parse the query string of GET /api/batch/:batchId
+ * @param query - Express request query object
+ * @returns BatchRowQuery - The validated query (limit is capped at 10000)
+ * @throws AppError (400) when a parameter is malformed
+ */
+export function parseBatchRowQuery(query: Record<string, unknown>): BatchRowQuery {
+  const limit = optionalPositiveInt(query.limit, "limit");
+
+  if (query.cursor !== undefined && (typeof query.cursor !== "string" || query.cursor === "")) {
+    throw new AppError("cursor must be a non-empty string", "INVALID_REQUEST");
+  }
+
+  return {
+    fields: optionalFieldList(query.fields, "fields"),
+    sort: optionalRowSort(query.sort),
+    filters: optionalRowFilters(query.filter),
+    cursor: query.cursor as string | undefined,
+    limit: limit === undefined ? undefined : Math.min(limit, MAX_ROW_PAGE_SIZE),
+  };
+}
+
+/**
+ * Parse the query string of GET /api/batch/:batchId/diff/:otherBatchId
+ * @param query - Express request query object
+ * @returns BatchDiffQuery - The validated query (limit defaults to 1000, capped at 10000)
+ * @throws AppError (400) when the key is missing or a parameter is malformed
+ */
+export function parseBatchDiffQuery(query: Record<string, unknown>): BatchDiffQuery {
+  if (typeof query.key !== "string" || query.key.trim() === "") {
+    throw new AppError(
+      "key is required: the column that identifies a row in both batches",
+      "INVALID_REQUEST"
+    );
+  }
+
+  const key = query.key.trim();
+  if (key.length > MAX_SOURCE_FIELD_LENGTH) {
+    throw new AppError(
+      `key must be at most ${MAX_SOURCE_FIELD_LENGTH} characters`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  const changes = optionalFieldList(query.change, "change");
+  const unknownChange = changes?.find(
+    (change) => !BATCH_CHANGE_TYPES.includes(change as BatchChangeType)
+  );
+  if (unknownChange !== undefined) {
+    throw new AppError(
+      `Invalid change: ${unknownChange}. Must be one of: ${BATCH_CHANGE_TYPES.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  if (query.cursor !== undefined && (typeof query.cursor !== "string" || query.cursor === "")) {
+    throw new AppError("cursor must be a non-empty string", "INVALID_REQUEST");
+  }
+
+  const limit = optionalPositiveInt(query.limit, "limit") ?? DEFAULT_DIFF_PAGE_SIZE;
+
+  return {
+    key,
+    changes: changes as BatchChangeType[] | undefined,
+    cursor: query.cursor as string | undefined,
+    limit: Math.min(limit, MAX_ROW_PAGE_SIZE),
+  };
+}
+
+/**
+ * Parse the query string of GET /api/current-records
+ * @param query - Express request query object
+ * @returns CurrentRecordListFilters
+ * @throws AppError (400) when a parameter is malformed
+ */
+export function parseCurrentRecordFilters(query: Record<string, unknown>): CurrentRecordListFilters {
+  return {
+    spreadsheetId: optionalString(query.spreadsheetId, "spreadsheetId"),
+    sheetName: optionalString(query.sheetName, "sheetName"),
+    includeDeleted: optionalBoolean(query.includeDeleted, "includeDeleted"),
+    cursor: optionalPositiveInt(query.cursor, "cursor"),
+    limit: optionalPositiveInt(query.limit, "limit"),
+  };
+}
+
+/**
+ * Parse the body of a webhook registration
+ * @param body - Request body
+ * @returns WebhookRegistration
+ * @throws AppError (400) when the URL is not http(s) or a field is malformed
+ */
+export function parseWebhookRegistration(body: Record<string, unknown>): WebhookRegistration {
+  if (typeof body.url !== "string" || body.url.length > MAX_WEBHOOK_URL_LENGTH) {
+    throw new AppError(
+      `url must be a string of at most ${MAX_WEBHOOK_URL_LENGTH} characters`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(body.url);
+  } catch {
+    throw new AppError(`Invalid url: ${body.url}`, "INVALID_REQUEST");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new AppError("url must use http or https", "INVALID_REQUEST");
+  }
+
+  const secret = optionalString(body.secret, "secret");
+  if (secret !== undefined && secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+    throw new AppError(
+      `secret must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return {
+    url: url.toString(),
+    secret,
+    dataset: optionalString(body.dataset, "dataset"),
+    spreadsheetId: optionalString(body.spreadsheetId, "spreadsheetId"),
+  };
+}
+
+/**
+ * Parse the query string of GET /api/admin/webhooks/:id/deliveries
+ * @param query - Express request query object
+ * @returns WebhookDeliveryFilters
+ * @throws AppError (400) when a parameter is malformed
+ */
+export function parseWebhookDeliveryFilters(query: Record<string, unknown>): WebhookDeliveryFilters {
+  const status = query.status;
+  if (status !== undefined && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    throw new AppError(
+      `Invalid status: ${String(status)}. Must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(", ")}`,
+      "INVALID_REQUEST"
+    );
+  }
+
+  return {
+    status: status as WebhookDeliveryStatus | undefined,
+    batchId: optionalPositiveInt(query.batchId, "batchId"),
+    cursor: optionalPositiveInt(query.cursor, "cursor"),
+    limit: optionalPositiveInt(query.limit, "limit"),
+  };
+}
+
+/**
+ * Parse the query string of GET /api/batch/:batchId/rejections
+ * @param query - Express request query object
+ * @returns RejectedRowFilters
+ * @throws AppError (400) when a parameter is malformed
+ */
+export function parseRejectedRowFilters(query: Record<string, unknown>): RejectedRowFilters {
+  return {
+    cursor: optionalPositiveInt(query.cursor, "cursor"),
+    limit: optionalPositiveInt(query.limit, "limit"),
+  };
+}
+
+/**
+ * Parse the body of a rejected row replay
+ * - rows: [{ rowNumber, data }] to replay with corrected data
+ * - rowNumbers: rows to replay as they were stored
+ * @param body - Request body
+ * @returns RejectionReplay
+ * @throws AppError (400) when a field is malformed
+ */
+export function parseRejectionReplay(body: Record<string, unknown>): RejectionReplay {
+  const { rows, rowNumbers } = body;
+
+  if (rows !== undefined && !Array.isArray(rows)) {
+    throw new AppError("rows must be an array of { rowNumber, data }", "INVALID_REQUEST");
+  }
+  if (rowNumbers !== undefined && !Array.isArray(rowNumbers)) {
+    throw new AppError("rowNumbers must be an array of row numbers", "INVALID_REQUEST");
+  }
+
+  return {
+    rows: rows?.map((row: unknown, index) => {
+      const { rowNumber, data } = (row ?? {}) as Record<string, unknown>;
+      if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new AppError(`rows[${index}].data must be an object`, "INVALID_REQUEST");
+      }
+      return {
+        rowNumber: requirePositiveInt(rowNumber, `rows[${index}].rowNumber`),
+        data: data as SheetDataRow,
+      };
+    }),
+    rowNumbers: rowNumbers?.map((rowNumber: unknown, index) =>
+      requirePositiveInt(rowNumber, `rowNumbers[${index}]`)
+    ),
+  };
+}